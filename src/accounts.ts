@@ -0,0 +1,156 @@
+import crypto from 'crypto';
+import { readFileSync } from 'fs';
+import { AUTH_MODES, AuthMode, MozCredentials } from './auth.js';
+import { MozAuthError, MozInvalidParamsError } from './errors.js';
+
+// Moz credentials by account. Named profiles come from a JSON accounts file:
+//
+//   {
+//     "default": "agency",
+//     "accounts": {
+//       "agency": { "api_token": "..." },
+//       "client-a": { "api_token_env": "CLIENT_A_MOZ_TOKEN" },
+//       "legacy": { "auth_mode": "v2", "access_id": "...", "secret_key_env": "LEGACY_MOZ_SECRET" }
+//     }
+//   }
+//
+// Credentials from the environment (MOZ_API_TOKEN or MOZ_ACCESS_ID and
+// MOZ_SECRET_KEY), when set, are registered as the "default" profile.
+
+export interface AccountProfile {
+  name: string;
+  credentials: MozCredentials;
+}
+
+interface AccountEntry {
+  api_token?: string;
+  api_token_env?: string;
+  access_id?: string;
+  secret_key?: string;
+  secret_key_env?: string;
+  auth_mode?: string;
+}
+
+interface AccountsFile {
+  default?: string;
+  accounts?: Record<string, AccountEntry>;
+}
+
+export const DEFAULT_ACCOUNT = 'default';
+
+export class CredentialRegistry {
+  constructor(
+    private readonly profiles: Map<string, AccountProfile>,
+    private readonly defaultName?: string
+  ) {}
+
+  static load(options: { file?: string; fallback?: MozCredentials }): CredentialRegistry {
+    const profiles = new Map<string, AccountProfile>();
+    let defaultName: string | undefined;
+
+    if (options.fallback?.apiToken || (options.fallback?.accessId && options.fallback.secretKey)) {
+      profiles.set(DEFAULT_ACCOUNT, { name: DEFAULT_ACCOUNT, credentials: options.fallback });
+      defaultName = DEFAULT_ACCOUNT;
+    }
+
+    if (options.file) {
+      const config = JSON.parse(readFileSync(options.file, 'utf-8')) as AccountsFile;
+      for (const [name, entry] of Object.entries(config.accounts ?? {})) {
+        profiles.set(name, { name, credentials: entryCredentials(name, entry, options.file) });
+      }
+      if (config.default) {
+        if (!profiles.has(config.default)) {
+          throw new Error(`Default account "${config.default}" is not defined in ${options.file}`);
+        }
+        defaultName = config.default;
+      } else if (!defaultName && profiles.size === 1) {
+        defaultName = [...profiles.keys()][0];
+      }
+    }
+
+    return new CredentialRegistry(profiles, defaultName);
+  }
+
+  get size(): number {
+    return this.profiles.size;
+  }
+
+  names(): string[] {
+    return [...this.profiles.keys()];
+  }
+
+  // The named profile, or the default one when no name is given
+  resolve(name?: string): AccountProfile {
+    if (name !== undefined) {
+      const profile = this.profiles.get(name);
+      if (!profile) {
+        throw new MozInvalidParamsError(`Unknown account "${name}" (available: ${this.names().join(', ') || 'none'})`);
+      }
+      return profile;
+    }
+    if (!this.defaultName) {
+      throw new MozAuthError('No Moz account selected: pass account, send an X-Moz-Token header or configure a default account');
+    }
+    return this.profiles.get(this.defaultName)!;
+  }
+}
+
+export function parseAuthMode(value: string | undefined, source: string): AuthMode | undefined {
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+  if (!(AUTH_MODES as readonly string[]).includes(value)) {
+    throw new Error(`Unknown auth mode "${value}" in ${source} (expected ${AUTH_MODES.join(', ')})`);
+  }
+  return value as AuthMode;
+}
+
+function entryCredentials(name: string, entry: AccountEntry, file: string): MozCredentials {
+  const credentials: MozCredentials = {
+    apiToken: entry.api_token ?? (entry.api_token_env ? process.env[entry.api_token_env] : undefined),
+    accessId: entry.access_id,
+    secretKey: entry.secret_key ?? (entry.secret_key_env ? process.env[entry.secret_key_env] : undefined),
+    authMode: parseAuthMode(entry.auth_mode, `account "${name}" of ${file}`),
+  };
+  if (!credentials.apiToken && !(credentials.accessId && credentials.secretKey)) {
+    throw new Error(`Account "${name}" in ${file} has no api_token or access_id/secret_key (or their *_env variables are unset)`);
+  }
+  return credentials;
+}
+
+// Account for a V3 token supplied by the caller rather than the registry. The
+// name is derived from the token so its cache and quota stay separate from others.
+export function adHocProfile(apiToken: string): AccountProfile {
+  const digest = crypto.createHash('sha256').update(apiToken).digest('hex').slice(0, 12);
+  return { name: `token-${digest}`, credentials: { apiToken, authMode: 'v3' } };
+}
+
+// Lazily builds and keeps one set of per-account resources (client, budget).
+// With maxEntries, the least recently used entry is dropped to make room.
+export class AccountPool<T> {
+  private entries = new Map<string, T>();
+
+  constructor(
+    private readonly create: (profile: AccountProfile) => T,
+    private readonly maxEntries = Infinity
+  ) {}
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  get(profile: AccountProfile): T {
+    let entry = this.entries.get(profile.name);
+    if (entry) {
+      // Re-inserted so the map stays ordered from least to most recently used
+      this.entries.delete(profile.name);
+    } else {
+      entry = this.create(profile);
+      if (this.entries.size >= this.maxEntries) {
+        this.entries.delete(this.entries.keys().next().value!);
+      }
+    }
+    this.entries.set(profile.name, entry);
+    return entry;
+  }
+}
@@ -0,0 +1,109 @@
+import crypto from 'crypto';
+import { MozAuthError } from './errors.js';
+
+// How the client authenticates with Moz. V3 sends the API token in the
+// x-moz-token header. V2 is the legacy Links API scheme: an Access ID and
+// Secret Key sign an expiry time, and AccessID, Expires and Signature go out as
+// query parameters. `auto` picks whichever one the startup self-test accepts.
+
+export const AUTH_MODES = ['v3', 'v2', 'auto'] as const;
+export type AuthMode = typeof AUTH_MODES[number];
+
+export interface MozCredentials {
+  apiToken?: string;
+  accessId?: string;
+  secretKey?: string;
+  // Defaults to v3
+  authMode?: AuthMode;
+}
+
+// Per-request additions an auth strategy makes to the outgoing HTTP request
+export interface AuthRequestConfig {
+  headers?: Record<string, string>;
+  params?: Record<string, string>;
+}
+
+export interface AuthStrategy {
+  readonly mode: Exclude<AuthMode, 'auto'>;
+  requestConfig(): AuthRequestConfig;
+}
+
+export class V3TokenAuth implements AuthStrategy {
+  readonly mode = 'v3';
+
+  constructor(private readonly apiToken: string) {}
+
+  requestConfig(): AuthRequestConfig {
+    return { headers: { 'x-moz-token': this.apiToken } };
+  }
+}
+
+// Signatures expire after this long, so a captured URL cannot be replayed later
+const V2_SIGNATURE_TTL_SECONDS = 300;
+
+export class V2SignedAuth implements AuthStrategy {
+  readonly mode = 'v2';
+
+  constructor(private readonly accessId: string, private readonly secretKey: string) {}
+
+  requestConfig(): AuthRequestConfig {
+    const expires = Math.floor(Date.now() / 1000) + V2_SIGNATURE_TTL_SECONDS;
+    return {
+      params: {
+        AccessID: this.accessId,
+        Expires: String(expires),
+        Signature: signV2(this.accessId, this.secretKey, expires),
+      },
+    };
+  }
+}
+
+// Base64 HMAC-SHA1 of "<access id>\n<expires>" keyed with the secret key
+export function signV2(accessId: string, secretKey: string, expires: number): string {
+  return crypto.createHmac('sha1', secretKey).update(`${accessId}\n${expires}`).digest('base64');
+}
+
+// Legacy V2 credentials are sometimes handed out as base64("<access id>:<secret>").
+// Only strict round-tripping base64 of that shape counts, so that V3 tokens
+// that happen to decode to text containing a colon are not mistaken for it.
+export function decodeV2Token(token: string): { accessId: string; secretKey: string } | undefined {
+  if (!/^[A-Za-z0-9+/]+={0,2}$/.test(token) || token.length % 4 !== 0) {
+    return undefined;
+  }
+  const decoded = Buffer.from(token, 'base64');
+  if (decoded.toString('base64') !== token) {
+    return undefined;
+  }
+  const match = /^([\x21-\x39\x3b-\x7e]+):([\x21-\x7e]+)$/.exec(decoded.toString('utf-8'));
+  return match ? { accessId: match[1], secretKey: match[2] } : undefined;
+}
+
+function v2Credentials(credentials: MozCredentials): { accessId: string; secretKey: string } | undefined {
+  if (credentials.accessId && credentials.secretKey) {
+    return { accessId: credentials.accessId, secretKey: credentials.secretKey };
+  }
+  return credentials.apiToken ? decodeV2Token(credentials.apiToken) : undefined;
+}
+
+// Strategies the credentials allow for their mode, in the order to try them
+export function authStrategies(credentials: MozCredentials): AuthStrategy[] {
+  const mode = credentials.authMode ?? 'v3';
+  const strategies: AuthStrategy[] = [];
+
+  if ((mode === 'v3' || mode === 'auto') && credentials.apiToken) {
+    strategies.push(new V3TokenAuth(credentials.apiToken));
+  }
+  if (mode === 'v2' || mode === 'auto') {
+    const v2 = v2Credentials(credentials);
+    if (v2) {
+      strategies.push(new V2SignedAuth(v2.accessId, v2.secretKey));
+    }
+  }
+
+  if (strategies.length === 0) {
+    throw new MozAuthError(mode === 'v2'
+      ? 'V2 authentication needs an Access ID and Secret Key (or a base64 "<access id>:<secret key>" token)'
+      : 'No Moz API token configured');
+  }
+  return strategies;
+}
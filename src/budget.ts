@@ -0,0 +1,220 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { RowBudgetExceededError } from './errors.js';
+
+// Row budgeting for tool calls. Moz bills quota in rows, so every tool call is
+// estimated up front and refused when it would overrun the session budget, the
+// daily budget or the account's remaining quota. Each Moz account has its own
+// daily budget and quota; each MCP session tracks its own spend across accounts.
+//
+// A call reserves its estimate when it is checked and settles the rows it
+// actually used when it is done, so concurrent calls cannot all pass the check
+// against the same remaining rows.
+
+export interface BudgetOptions {
+  dailyLimit?: number;
+  // Persists daily usage so restarts do not reset the daily budget
+  stateFile?: string;
+}
+
+export interface BudgetStatus {
+  account: string;
+  session_used: number;
+  session_limit: number | null;
+  day: string;
+  daily_used: number;
+  daily_limit: number | null;
+  quota_remaining: number | null;
+}
+
+interface DailyLedger {
+  day: string;
+  used: number;
+}
+
+// Rows set aside for a call until it settles
+export interface RowReservation {
+  // Releases the estimate and charges the rows the call used instead
+  settle(rows: number): Promise<void>;
+}
+
+const QUOTA_REFRESH_MS = 10 * 60 * 1000;
+
+export class RowBudget {
+  private ledger?: DailyLedger;
+  private quotaRemaining?: number;
+  private quotaCheckedAt = 0;
+  // Estimates of calls still running
+  private reserved = 0;
+
+  constructor(readonly account: string, private readonly options: BudgetOptions = {}) {}
+
+  quotaIsStale(): boolean {
+    return Date.now() - this.quotaCheckedAt > QUOTA_REFRESH_MS;
+  }
+
+  setQuotaRemaining(remaining: number | undefined): void {
+    this.quotaRemaining = remaining;
+    this.quotaCheckedAt = Date.now();
+  }
+
+  async status(): Promise<Omit<BudgetStatus, 'session_used' | 'session_limit'>> {
+    const ledger = await this.loadLedger();
+    return {
+      account: this.account,
+      day: ledger.day,
+      daily_used: ledger.used,
+      daily_limit: this.options.dailyLimit ?? null,
+      quota_remaining: this.quotaRemaining ?? null,
+    };
+  }
+
+  // Throws if a call estimated at `rows` would go over any limit, counting the
+  // rows reserved by calls still running
+  async ensureAffordable(rows: number): Promise<void> {
+    this.check(rows, await this.loadLedger());
+  }
+
+  // Checks and sets aside `rows` in one step; nothing awaits in between
+  async reserve(rows: number): Promise<RowReservation> {
+    const ledger = await this.loadLedger();
+    this.check(rows, ledger);
+    const estimate = Math.max(0, rows);
+    this.reserved += estimate;
+    let settled = false;
+    return {
+      settle: async (used) => {
+        if (settled) {
+          return;
+        }
+        settled = true;
+        this.reserved -= estimate;
+        await this.charge(used);
+      },
+    };
+  }
+
+  private check(rows: number, ledger: DailyLedger): void {
+    if (rows <= 0) {
+      return;
+    }
+    const { dailyLimit } = this.options;
+    const used = ledger.used + this.reserved;
+
+    if (dailyLimit !== undefined && used + rows > dailyLimit) {
+      throw new RowBudgetExceededError('daily', rows, dailyLimit - used);
+    }
+    if (this.quotaRemaining !== undefined && this.reserved + rows > this.quotaRemaining) {
+      throw new RowBudgetExceededError('account quota', rows, this.quotaRemaining - this.reserved);
+    }
+  }
+
+  private async charge(rows: number): Promise<void> {
+    if (rows <= 0) {
+      return;
+    }
+    const ledger = await this.loadLedger();
+    ledger.used += rows;
+    if (this.quotaRemaining !== undefined) {
+      this.quotaRemaining = Math.max(0, this.quotaRemaining - rows);
+    }
+    await this.saveLedger(ledger);
+  }
+
+  private async loadLedger(): Promise<DailyLedger> {
+    const day = new Date().toISOString().slice(0, 10);
+    if (this.ledger?.day === day) {
+      return this.ledger;
+    }
+
+    this.ledger = { day, used: 0 };
+    if (this.options.stateFile) {
+      try {
+        const stored = JSON.parse(await fs.readFile(this.options.stateFile, 'utf-8')) as DailyLedger;
+        if (stored.day === day) {
+          this.ledger.used = stored.used;
+        }
+      } catch {
+        // Missing or unreadable state starts the day from zero
+      }
+    }
+    return this.ledger;
+  }
+
+  private async saveLedger(ledger: DailyLedger): Promise<void> {
+    if (!this.options.stateFile) {
+      return;
+    }
+    await fs.mkdir(path.dirname(this.options.stateFile), { recursive: true });
+    await fs.writeFile(this.options.stateFile, JSON.stringify(ledger));
+  }
+}
+
+export class SessionBudget {
+  private used = 0;
+  private reserved = 0;
+
+  constructor(private readonly limit?: number) {}
+
+  async status(account: RowBudget): Promise<BudgetStatus> {
+    return {
+      ...await account.status(),
+      session_used: this.used,
+      session_limit: this.limit ?? null,
+    };
+  }
+
+  async ensureAffordable(rows: number, account: RowBudget): Promise<void> {
+    this.check(rows);
+    await account.ensureAffordable(rows);
+  }
+
+  // Reserves `rows` against the session, then against the account
+  async reserve(rows: number, account: RowBudget): Promise<RowReservation> {
+    this.check(rows);
+    const estimate = Math.max(0, rows);
+    this.reserved += estimate;
+    let reservation: RowReservation;
+    try {
+      reservation = await account.reserve(rows);
+    } catch (error) {
+      this.reserved -= estimate;
+      throw error;
+    }
+    let settled = false;
+    return {
+      settle: async (used) => {
+        if (settled) {
+          return;
+        }
+        settled = true;
+        this.reserved -= estimate;
+        this.used += Math.max(0, used);
+        await reservation.settle(used);
+      },
+    };
+  }
+
+  private check(rows: number): void {
+    const used = this.used + this.reserved;
+    if (rows > 0 && this.limit !== undefined && used + rows > this.limit) {
+      throw new RowBudgetExceededError('session', rows, this.limit - used);
+    }
+  }
+}
+
+// Rows a Moz response was billed for: one per listed item, or one for a lookup
+export function rowsInResult(method: string, result: unknown): number {
+  if (method === 'quota.lookup' || method === 'data.usage') {
+    return 0;
+  }
+  if (result && typeof result === 'object') {
+    for (const key of ['results', 'ranking_keywords', 'suggestions', 'site_metrics']) {
+      const value = (result as Record<string, unknown>)[key];
+      if (Array.isArray(value)) {
+        return Math.max(1, value.length);
+      }
+    }
+  }
+  return 1;
+}
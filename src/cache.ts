@@ -0,0 +1,151 @@
+import crypto from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+export interface CacheEntry {
+  value: unknown;
+  storedAt: number;
+  expiresAt: number;
+}
+
+// Storage backend for cached Moz responses
+export interface CacheStore {
+  get(key: string): Promise<CacheEntry | undefined>;
+  set(key: string, entry: CacheEntry): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+// TTLs in milliseconds keyed by JSON-RPC method; 0 disables caching
+export type CacheTtls = Record<string, number>;
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+export const DEFAULT_CACHE_TTLS: CacheTtls = {
+  'quota.lookup': 0,
+  'data.usage': 0,
+  'data.keyword.search.intent.fetch': 7 * DAY,
+  'data.keyword.suggestions.list': 7 * DAY,
+  'data.keyword.metrics.fetch': 7 * DAY,
+  'data.keyword.metrics.difficulty.fetch': 7 * DAY,
+  'data.keyword.metrics.volume.fetch': 7 * DAY,
+  'data.keyword.metrics.opportunity.fetch': 7 * DAY,
+  'data.keyword.metrics.priority.fetch': 7 * DAY,
+  'data.site.metrics.fetch': DAY,
+  'data.site.metrics.fetch.multiple': DAY,
+  'data.site.metrics.brand.authority.fetch': DAY,
+  'data.site.ranking.keywords.list': DAY,
+  'site.ranking_keywords.count': DAY,
+};
+const DEFAULT_TTL = DAY;
+
+export class MemoryCacheStore implements CacheStore {
+  // Map iteration order doubles as recency order: oldest entries come first
+  private entries = new Map<string, CacheEntry>();
+
+  constructor(private readonly maxEntries: number = 1000) {}
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    const entry = this.entries.get(key);
+    if (entry) {
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+}
+
+// Stores one JSON file per entry so the cache survives restarts
+export class FileCacheStore implements CacheStore {
+  constructor(private readonly directory: string) {}
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    try {
+      const raw = await fs.readFile(this.fileFor(key), 'utf-8');
+      const stored = JSON.parse(raw) as CacheEntry & { key: string };
+      return stored.key === key ? stored : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(this.fileFor(key), JSON.stringify({ key, ...entry }));
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.fileFor(key), { force: true });
+  }
+
+  private fileFor(key: string): string {
+    const hash = crypto.createHash('sha256').update(key).digest('hex');
+    return path.join(this.directory, `${hash}.json`);
+  }
+}
+
+export class ResponseCache {
+  private ttls: CacheTtls;
+
+  // `namespace` keeps entries of different Moz accounts apart in a shared store
+  constructor(private readonly store: CacheStore, ttls: CacheTtls = {}, private readonly namespace = '') {
+    this.ttls = { ...DEFAULT_CACHE_TTLS, ...ttls };
+  }
+
+  ttlFor(method: string): number {
+    return this.ttls[method] ?? DEFAULT_TTL;
+  }
+
+  async get(method: string, params: unknown): Promise<CacheEntry | undefined> {
+    if (this.ttlFor(method) <= 0) {
+      return undefined;
+    }
+    const key = this.keyFor(method, params);
+    const entry = await this.store.get(key);
+    if (entry && entry.expiresAt <= Date.now()) {
+      await this.store.delete(key);
+      return undefined;
+    }
+    return entry;
+  }
+
+  async set(method: string, params: unknown, value: unknown): Promise<void> {
+    const ttl = this.ttlFor(method);
+    if (ttl <= 0) {
+      return;
+    }
+    const now = Date.now();
+    await this.store.set(this.keyFor(method, params), { value, storedAt: now, expiresAt: now + ttl });
+  }
+
+  private keyFor(method: string, params: unknown): string {
+    return `${this.namespace}|${method}:${stableStringify(params)}`;
+  }
+}
+
+// JSON.stringify with sorted object keys, so equal params give equal keys
+export function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
@@ -0,0 +1,39 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+// Per tool call state that the client reads and records into without every
+// method signature having to carry it.
+
+export interface CallRecord {
+  method: string;
+  cached: boolean;
+  // Quota rows the call consumed; cached responses cost nothing
+  rows: number;
+  // Age of the cached response in seconds, when served from the cache
+  ageSeconds?: number;
+  // Answered by an identical request that was already in flight
+  shared?: boolean;
+}
+
+export interface CallContext {
+  // Skip the cache and always fetch from Moz
+  fresh: boolean;
+  calls: CallRecord[];
+}
+
+const storage = new AsyncLocalStorage<CallContext>();
+
+export function currentCallContext(): CallContext | undefined {
+  return storage.getStore();
+}
+
+export function createCallContext(options: { fresh?: boolean } = {}): CallContext {
+  return { fresh: options.fresh === true, calls: [] };
+}
+
+export function runInCallContext<T>(context: CallContext, fn: () => Promise<T>): Promise<T> {
+  return storage.run(context, fn);
+}
+
+export function rowsUsed(calls: CallRecord[]): number {
+  return calls.reduce((total, call) => total + call.rows, 0);
+}
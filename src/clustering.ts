@@ -0,0 +1,153 @@
+import { ClusteredKeyword, KeywordCluster } from './moz-types.js';
+
+// Offline keyword clustering. Works only on keywords whose metrics and intent
+// were fetched beforehand, so it never calls Moz itself.
+//
+// Two keywords are similar when their significant terms overlap (Jaccard), more
+// so when they share a head term, the term most common across the whole list
+// among their own terms. Different intent labels pull keywords apart. Keywords
+// are taken shortest first, so broad terms seed the clusters, and each joins the
+// cluster whose seed it is most similar to, or seeds a new one when none
+// reaches the threshold.
+
+export interface ClusterOptions {
+  // Minimum similarity, 0 to 1, to a cluster's seed for a keyword to join it
+  threshold?: number;
+}
+
+export const DEFAULT_CLUSTER_THRESHOLD = 0.4;
+
+const HEAD_TERM_BONUS = 0.15;
+const INTENT_MISMATCH_FACTOR = 0.5;
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'at', 'be', 'by', 'can', 'do', 'for', 'from', 'how', 'i', 'in', 'is', 'it',
+  'my', 'near', 'of', 'on', 'or', 'the', 'to', 'vs', 'what', 'when', 'where', 'which', 'who', 'why',
+  'with', 'you', 'your',
+]);
+
+interface Profile {
+  item: ClusteredKeyword;
+  terms: Set<string>;
+  head?: string;
+}
+
+// Lowercased significant words with a crude plural fold, so "tool" and
+// "tools" count as the same term
+export function keywordTerms(keyword: string): string[] {
+  return keyword
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(word => word && !STOPWORDS.has(word))
+    .map(word => (word.length > 3 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word));
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  let shared = 0;
+  for (const term of a) {
+    if (b.has(term)) {
+      shared++;
+    }
+  }
+  const union = a.size + b.size - shared;
+  return union === 0 ? 0 : shared / union;
+}
+
+function similarity(a: Profile, b: Profile): number {
+  let score = jaccard(a.terms, b.terms);
+  if (score > 0 && a.head !== undefined && a.head === b.head) {
+    score += HEAD_TERM_BONUS;
+  }
+  if (a.item.intent && b.item.intent && a.item.intent !== b.item.intent) {
+    score *= INTENT_MISMATCH_FACTOR;
+  }
+  return Math.min(1, score);
+}
+
+// Highest volume wins, then lower difficulty, then the shorter keyword
+function comparePillar(a: ClusteredKeyword, b: ClusteredKeyword): number {
+  return (b.volume ?? -1) - (a.volume ?? -1)
+    || (a.difficulty ?? Infinity) - (b.difficulty ?? Infinity)
+    || a.keyword.length - b.keyword.length
+    || a.keyword.localeCompare(b.keyword);
+}
+
+function mostCommon(values: Iterable<string>): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const value of values) {
+    counts.set(value, (counts.get(value) ?? 0) + 1);
+  }
+  return counts;
+}
+
+function summarize(members: Profile[]): KeywordCluster {
+  const items = members.map(member => member.item).sort(comparePillar);
+  const pillar = items[0];
+
+  // Topic: the terms over half the members share, in order of how many share them
+  const termCounts = mostCommon(members.flatMap(member => [...member.terms]));
+  const topicTerms = [...termCounts.entries()]
+    .filter(([, count]) => count * 2 > members.length)
+    .sort(([a, x], [b, y]) => y - x || a.localeCompare(b))
+    .slice(0, 3)
+    .map(([term]) => term);
+
+  const difficulties = items.map(item => item.difficulty).filter((d): d is number => d !== null);
+  const intents = Object.fromEntries(mostCommon(items.map(item => item.intent).filter((i): i is string => i !== null)));
+  const primaryIntent = Object.entries(intents).sort(([, a], [, b]) => b - a)[0]?.[0] ?? null;
+
+  return {
+    topic: topicTerms.length > 0 ? topicTerms.join(' ') : pillar.keyword,
+    pillar_keyword: pillar.keyword,
+    size: items.length,
+    total_volume: items.reduce((sum, item) => sum + (item.volume ?? 0), 0),
+    average_difficulty: difficulties.length > 0
+      ? Math.round((difficulties.reduce((sum, d) => sum + d, 0) / difficulties.length) * 10) / 10
+      : null,
+    primary_intent: primaryIntent,
+    intents,
+    keywords: items,
+  };
+}
+
+// Groups keywords into topic clusters, largest total volume first
+export function clusterKeywords(keywords: ClusteredKeyword[], options: ClusterOptions = {}): KeywordCluster[] {
+  const threshold = options.threshold ?? DEFAULT_CLUSTER_THRESHOLD;
+  const profiles: Profile[] = keywords.map(item => ({ item, terms: new Set(keywordTerms(item.keyword)) }));
+
+  const documentFrequency = mostCommon(profiles.flatMap(profile => [...profile.terms]));
+  for (const profile of profiles) {
+    let best = 0;
+    for (const term of profile.terms) {
+      const frequency = documentFrequency.get(term) ?? 0;
+      // A head term has to be shared with at least one other keyword
+      if (frequency > 1 && frequency > best) {
+        best = frequency;
+        profile.head = term;
+      }
+    }
+  }
+
+  const ordered = [...profiles].sort((a, b) => a.terms.size - b.terms.size || comparePillar(a.item, b.item));
+  const clusters: Profile[][] = [];
+  for (const profile of ordered) {
+    let bestCluster: Profile[] | undefined;
+    let bestScore = threshold;
+    for (const cluster of clusters) {
+      const score = similarity(profile, cluster[0]);
+      if (score >= bestScore) {
+        bestScore = score;
+        bestCluster = cluster;
+      }
+    }
+    if (bestCluster) {
+      bestCluster.push(profile);
+    } else {
+      clusters.push([profile]);
+    }
+  }
+
+  return clusters
+    .map(summarize)
+    .sort((a, b) => b.total_volume - a.total_volume || b.size - a.size);
+}
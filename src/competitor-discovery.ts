@@ -0,0 +1,107 @@
+import { SiteRankings, rankingsBySite } from './keyword-gap.js';
+import { isDirectoryDomain, normalizeDomain } from './link-intersect.js';
+import { DiscoveredCompetitor, LinkingDomain } from './moz-types.js';
+
+// Competitor discovery over ranking keyword sets that were already fetched.
+// Candidates come from the site's linking domains and the caller's seeds; a
+// candidate competes with the site to the extent it ranks for the same
+// keywords, weighted by their search volume.
+
+export type CandidateSource = DiscoveredCompetitor['sources'][number];
+
+export interface Candidate {
+  domain: string;
+  sources: CandidateSource[];
+}
+
+// Shared keywords listed per competitor
+const TOP_SHARED_KEYWORDS = 5;
+
+// Seeds first, then linking domains by Domain Authority, without the site
+// itself, excluded domains and web directories. Seeds are always kept;
+// linking domains are capped at maxLinkingDomains.
+export function discoveryCandidates(
+  site: string,
+  linkingDomains: LinkingDomain[],
+  seeds: string[],
+  options: { maxLinkingDomains: number; excludeDomains?: string[] }
+): Candidate[] {
+  const skipped = new Set([normalizeDomain(site), ...(options.excludeDomains ?? []).map(normalizeDomain)]);
+  const candidates = new Map<string, Candidate>();
+
+  for (const seed of seeds.map(normalizeDomain)) {
+    if (seed && !skipped.has(seed)) {
+      candidates.set(seed, { domain: seed, sources: ['seed'] });
+    }
+  }
+
+  const byAuthority = [...linkingDomains].sort((a, b) => (b.domain_authority ?? -1) - (a.domain_authority ?? -1));
+  let linking = 0;
+  for (const row of byAuthority) {
+    const domain = normalizeDomain(row.root_domain);
+    if (linking >= options.maxLinkingDomains) {
+      break;
+    }
+    if (!domain || skipped.has(domain) || isDirectoryDomain(domain)) {
+      continue;
+    }
+    const existing = candidates.get(domain);
+    if (existing?.sources.includes('linking_domain')) {
+      continue;
+    }
+    candidates.set(domain, { domain, sources: [...(existing?.sources ?? []), 'linking_domain'] });
+    linking++;
+  }
+  return [...candidates.values()];
+}
+
+// Unknown volume still counts, as the smallest weight
+function keywordWeight(volume: number | null): number {
+  return Math.max(1, volume ?? 0);
+}
+
+function percent(part: number, whole: number): number {
+  return whole > 0 ? Math.round((part / whole) * 1000) / 10 : 0;
+}
+
+// Candidates ranked by volume-weighted keyword overlap with the site. Linking
+// domains below minOverlap percent are left out; seeds are always listed.
+export function scoreCompetitors(
+  site: SiteRankings,
+  candidates: (SiteRankings & { sources: CandidateSource[] })[],
+  minOverlap = 0
+): DiscoveredCompetitor[] {
+  const siteRankings = rankingsBySite(site.keywords);
+  const totalWeight = [...siteRankings.values()].reduce((sum, ranking) => sum + keywordWeight(ranking.volume), 0);
+
+  const scored = candidates.map((candidate): DiscoveredCompetitor => {
+    const candidateRankings = rankingsBySite(candidate.keywords);
+    const shared = [...siteRankings.values()].filter(ranking => candidateRankings.has(ranking.keyword));
+    const sharedWeight = shared.reduce((sum, ranking) => sum + keywordWeight(ranking.volume), 0);
+    const outranking = shared.filter((ranking) => {
+      const theirs = candidateRankings.get(ranking.keyword)?.position ?? null;
+      return theirs !== null && (ranking.position === null || theirs < ranking.position);
+    }).length;
+
+    return {
+      domain: candidate.site,
+      sources: candidate.sources,
+      shared_keywords: shared.length,
+      keyword_overlap: percent(shared.length, siteRankings.size),
+      volume_overlap: percent(sharedWeight, totalWeight),
+      outranking,
+      top_shared_keywords: [...shared]
+        .sort((a, b) => keywordWeight(b.volume) - keywordWeight(a.volume) || a.keyword.localeCompare(b.keyword))
+        .slice(0, TOP_SHARED_KEYWORDS)
+        .map(ranking => ranking.keyword),
+    };
+  });
+
+  return scored
+    .filter(competitor => competitor.sources.includes('seed') || (competitor.shared_keywords > 0 && competitor.volume_overlap >= minOverlap))
+    .sort((a, b) =>
+      b.volume_overlap - a.volume_overlap ||
+      b.shared_keywords - a.shared_keywords ||
+      a.domain.localeCompare(b.domain)
+    );
+}
@@ -0,0 +1,83 @@
+// Base class for failures reported by the Moz API or on the way to it. The MCP
+// layer maps each subclass to its own error code.
+export class MozApiError extends Error {
+  readonly status?: number;
+  readonly rpcCode?: number;
+  readonly retryable: boolean;
+
+  constructor(message: string, options: { status?: number; rpcCode?: number; retryable?: boolean } = {}) {
+    super(message);
+    this.name = 'MozApiError';
+    this.status = options.status;
+    this.rpcCode = options.rpcCode;
+    this.retryable = options.retryable ?? false;
+  }
+}
+
+export class MozRateLimitError extends MozApiError {
+  // Delay requested by the server through Retry-After, if any
+  readonly retryAfterMs?: number;
+
+  constructor(message: string, options: { status?: number; rpcCode?: number; retryAfterMs?: number } = {}) {
+    super(message, { ...options, retryable: true });
+    this.name = 'MozRateLimitError';
+    this.retryAfterMs = options.retryAfterMs;
+  }
+}
+
+export class MozAuthError extends MozApiError {
+  constructor(message: string, options: { status?: number; rpcCode?: number } = {}) {
+    super(message, options);
+    this.name = 'MozAuthError';
+  }
+}
+
+export class MozQuotaExceededError extends MozApiError {
+  constructor(message: string, options: { status?: number; rpcCode?: number } = {}) {
+    super(message, options);
+    this.name = 'MozQuotaExceededError';
+  }
+}
+
+export class MozInvalidParamsError extends MozApiError {
+  constructor(message: string, options: { status?: number; rpcCode?: number } = {}) {
+    super(message, options);
+    this.name = 'MozInvalidParamsError';
+  }
+}
+
+export class MozUpstreamError extends MozApiError {
+  constructor(message: string, options: { status?: number; rpcCode?: number; retryable?: boolean } = {}) {
+    super(message, options);
+    this.name = 'MozUpstreamError';
+  }
+}
+
+// Raised when a Moz response does not match the shape this server expects,
+// e.g. after an upstream API change.
+export class MozResponseError extends MozApiError {
+  readonly method: string;
+  readonly issues: string[];
+
+  constructor(method: string, issues: string[]) {
+    super(`Unexpected response from ${method}: ${issues.join('; ')}`);
+    this.name = 'MozResponseError';
+    this.method = method;
+    this.issues = issues;
+  }
+}
+
+// Raised before a tool call whose estimated row cost would exceed a budget
+export class RowBudgetExceededError extends Error {
+  readonly budget: string;
+  readonly estimatedRows: number;
+  readonly remainingRows: number;
+
+  constructor(budget: string, estimatedRows: number, remainingRows: number) {
+    super(`Refusing call: estimated ${estimatedRows} rows exceeds the remaining ${budget} budget of ${Math.max(0, remainingRows)} rows`);
+    this.name = 'RowBudgetExceededError';
+    this.budget = budget;
+    this.estimatedRows = estimatedRows;
+    this.remainingRows = remainingRows;
+  }
+}
@@ -0,0 +1,183 @@
+import { randomUUID, timingSafeEqual } from 'crypto';
+import http, { IncomingMessage, ServerResponse } from 'http';
+import { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+
+// HTTP mode: serves MCP over Streamable HTTP at /mcp, with the older
+// HTTP+SSE transport at /sse and /messages for clients that lack it.
+
+export interface HttpServerOptions {
+  port: number;
+  host: string;
+  // Bearer tokens accepted from clients; empty means no authentication
+  authTokens: string[];
+  // Builds the MCP server for a new session
+  createServer: () => Server;
+}
+
+export interface RunningHttpServer {
+  close(): Promise<void>;
+}
+
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+export async function startHttpServer(options: HttpServerOptions): Promise<RunningHttpServer> {
+  const streamableTransports = new Map<string, StreamableHTTPServerTransport>();
+  const sseTransports = new Map<string, SSEServerTransport>();
+
+  const handleStreamable = async (req: IncomingMessage, res: ServerResponse) => {
+    const sessionId = req.headers['mcp-session-id'];
+    const existing = typeof sessionId === 'string' ? streamableTransports.get(sessionId) : undefined;
+    const body = req.method === 'POST' ? await readJsonBody(req) : undefined;
+
+    if (existing) {
+      await existing.handleRequest(req, res, body);
+      return;
+    }
+    if (sessionId !== undefined || req.method !== 'POST' || !isInitializeRequest(body)) {
+      sendJsonRpcError(res, 400, 'Bad Request: no valid session ID provided');
+      return;
+    }
+
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        streamableTransports.set(id, transport);
+      },
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        streamableTransports.delete(transport.sessionId);
+      }
+    };
+    await options.createServer().connect(transport);
+    await transport.handleRequest(req, res, body);
+  };
+
+  const handleSseConnect = async (res: ServerResponse) => {
+    const transport = new SSEServerTransport('/messages', res);
+    sseTransports.set(transport.sessionId, transport);
+    transport.onclose = () => {
+      sseTransports.delete(transport.sessionId);
+    };
+    await options.createServer().connect(transport);
+  };
+
+  const handleSseMessage = async (req: IncomingMessage, res: ServerResponse, url: URL) => {
+    const transport = sseTransports.get(url.searchParams.get('sessionId') ?? '');
+    if (!transport) {
+      sendJsonRpcError(res, 404, 'Unknown SSE session');
+      return;
+    }
+    await transport.handlePostMessage(req, res, await readJsonBody(req));
+  };
+
+  const httpServer = http.createServer(async (req, res) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+
+    try {
+      if (url.pathname === '/health' && req.method === 'GET') {
+        sendJson(res, 200, {
+          status: 'ok',
+          sessions: streamableTransports.size + sseTransports.size,
+        });
+        return;
+      }
+
+      if (!isAuthorized(req, options.authTokens)) {
+        res.setHeader('WWW-Authenticate', 'Bearer');
+        sendJsonRpcError(res, 401, 'Unauthorized');
+        return;
+      }
+
+      // Tool handlers see the caller's own Moz token, if any, as authInfo
+      (req as IncomingMessage & { auth?: AuthInfo }).auth = authInfoFor(req);
+
+      if (url.pathname === '/mcp') {
+        await handleStreamable(req, res);
+      } else if (url.pathname === '/sse' && req.method === 'GET') {
+        await handleSseConnect(res);
+      } else if (url.pathname === '/messages' && req.method === 'POST') {
+        await handleSseMessage(req, res, url);
+      } else {
+        sendJson(res, 404, { error: 'Not found' });
+      }
+    } catch (error) {
+      console.error('HTTP request failed:', error);
+      if (!res.headersSent) {
+        const status = error instanceof SyntaxError ? 400 : 500;
+        sendJsonRpcError(res, status, status === 400 ? 'Parse error' : 'Internal server error');
+      }
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, options.host, () => resolve());
+  });
+  console.error(`Moz MCP server listening on http://${options.host}:${options.port} (Streamable HTTP at /mcp, SSE at /sse)`);
+
+  return {
+    async close() {
+      const transports = [...streamableTransports.values(), ...sseTransports.values()];
+      await Promise.allSettled(transports.map(transport => transport.close()));
+      await new Promise<void>((resolve) => httpServer.close(() => resolve()));
+    },
+  };
+}
+
+function isAuthorized(req: IncomingMessage, tokens: string[]): boolean {
+  if (tokens.length === 0) {
+    return true;
+  }
+  const match = /^Bearer\s+(.+)$/i.exec(req.headers.authorization ?? '');
+  if (!match) {
+    return false;
+  }
+  const presented = Buffer.from(match[1].trim());
+  return tokens.some((token) => {
+    const expected = Buffer.from(token);
+    return expected.length === presented.length && timingSafeEqual(expected, presented);
+  });
+}
+
+function authInfoFor(req: IncomingMessage): AuthInfo {
+  const match = /^Bearer\s+(.+)$/i.exec(req.headers.authorization ?? '');
+  const mozToken = req.headers['x-moz-token'];
+  return {
+    token: match ? match[1].trim() : '',
+    clientId: 'moz-mcp',
+    scopes: [],
+    extra: { mozToken: typeof mozToken === 'string' && mozToken ? mozToken : undefined },
+  };
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new SyntaxError('Request body too large');
+    }
+    chunks.push(chunk as Buffer);
+  }
+  const raw = Buffer.concat(chunks).toString('utf-8');
+  return raw ? JSON.parse(raw) : undefined;
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+function sendJsonRpcError(res: ServerResponse, status: number, message: string): void {
+  sendJson(res, status, {
+    jsonrpc: '2.0',
+    error: { code: -32000, message },
+    id: null,
+  });
+}
@@ -1,655 +1,673 @@
 #!/usr/bin/env node
+import { EventEmitter } from 'events';
+import os from 'os';
+import path from 'path';
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
 import {
   CallToolRequestSchema,
+  CallToolResult,
   ErrorCode,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ListResourcesRequestSchema,
   ListToolsRequestSchema,
   McpError,
+  ReadResourceRequestSchema,
+  ReadResourceResult,
+  Resource,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
-import { MozApiClient, MozApiToken } from './moz-client.js';
+import {
+  MozApiError,
+  MozAuthError,
+  MozInvalidParamsError,
+  MozQuotaExceededError,
+  MozRateLimitError,
+  MozResponseError,
+  RowBudgetExceededError,
+} from './errors.js';
+import { AccountPool, AccountProfile, CredentialRegistry, adHocProfile, parseAuthMode } from './accounts.js';
+import { CacheStore, CacheTtls, FileCacheStore, MemoryCacheStore, ResponseCache } from './cache.js';
+import { RowBudget, RowReservation, SessionBudget } from './budget.js';
+import { startHttpServer } from './http-server.js';
+import { InsightRule, loadInsightRules } from './insights.js';
+import { CallRecord, createCallContext, rowsUsed, runInCallContext } from './call-context.js';
+import { MozApiClient } from './moz-client.js';
+import { SnapshotStore } from './snapshots.js';
+import { ProjectStore } from './projects.js';
+import { ReportStore } from './reports.js';
+import { getPrompt, listPrompts } from './prompts.js';
+import { QUOTA_URI, RESOURCE_TEMPLATES, ResourceRef, parseResourceUri, refreshedResources, resourceUri } from './resources.js';
+import { AnyTool, ParsedArgs, ToolRegistry, runTool } from './tool-registry.js';
+import { tools } from './tools.js';
 
-const MOZ_API_TOKEN = process.env.MOZ_API_TOKEN;
+// Moz credentials: named profiles from MOZ_ACCOUNTS_FILE plus the
+// environment credentials as the "default" profile
+let credentials: CredentialRegistry;
+try {
+  credentials = CredentialRegistry.load({
+    file: process.env.MOZ_ACCOUNTS_FILE,
+    fallback: {
+      apiToken: process.env.MOZ_API_TOKEN,
+      accessId: process.env.MOZ_ACCESS_ID,
+      secretKey: process.env.MOZ_SECRET_KEY,
+      authMode: parseAuthMode(process.env.MOZ_AUTH_MODE, 'MOZ_AUTH_MODE'),
+    },
+  });
+} catch (error) {
+  console.error(`Error: failed to load Moz accounts: ${error instanceof Error ? error.message : error}`);
+  process.exit(1);
+}
 
-if (!MOZ_API_TOKEN) {
-  console.error('Error: MOZ_API_TOKEN environment variable is required');
+// Rules competitor analysis insights are derived from: the default rule pack,
+// adjusted by MOZ_INSIGHT_RULES_FILE when set
+let insightRules: InsightRule[];
+try {
+  insightRules = loadInsightRules(process.env.MOZ_INSIGHT_RULES_FILE);
+} catch (error) {
+  console.error(`Error: failed to load insight rules: ${error instanceof Error ? error.message : error}`);
   process.exit(1);
 }
 
-const token: MozApiToken = {
-  apiToken: MOZ_API_TOKEN,
-};
+// Response cache: MOZ_CACHE selects memory (default), file or off, and
+// MOZ_CACHE_TTLS overrides TTLs in seconds per JSON-RPC method
+function createCacheStore(): CacheStore | undefined {
+  const backend = process.env.MOZ_CACHE || 'memory';
+  switch (backend) {
+    case 'off':
+      return undefined;
+    case 'file':
+      return new FileCacheStore(process.env.MOZ_CACHE_DIR || path.join(os.homedir(), '.moz-mcp', 'cache'));
+    case 'memory':
+      return new MemoryCacheStore();
+    default:
+      console.error(`Error: unknown MOZ_CACHE backend "${backend}" (expected memory, file or off)`);
+      process.exit(1);
+  }
+}
 
-const mozClient = new MozApiClient(token);
-const server = new Server(
-  {
-    name: 'moz-mcp',
-    version: '1.0.0',
-  },
-  {
-    capabilities: {
-      tools: {},
-    },
+function cacheTtlsFromEnv(): CacheTtls {
+  const ttls: CacheTtls = {};
+  if (!process.env.MOZ_CACHE_TTLS) {
+    return ttls;
   }
-);
+  const config: unknown = JSON.parse(process.env.MOZ_CACHE_TTLS);
+  if (typeof config !== 'object' || config === null || Array.isArray(config)) {
+    throw new Error('expected a JSON object of method name to TTL in seconds');
+  }
+  for (const [method, value] of Object.entries(config)) {
+    const seconds = typeof value === 'number' || typeof value === 'string' ? Number(value) : NaN;
+    if (!Number.isFinite(seconds) || seconds < 0) {
+      throw new Error(`TTL of ${method} must be a non-negative number of seconds`);
+    }
+    ttls[method] = seconds * 1000;
+  }
+  return ttls;
+}
 
-// Tool definitions
-const tools = [
-  {
-    name: 'moz_quota',
-    description: 'Check your Moz API quota and usage limits',
-    inputSchema: {
-      type: 'object',
-      properties: {},
-    },
-  },
-  // V3 API Methods - Core functionality
-  {
-    name: 'moz_keyword_search_intent',
-    description: 'Fetch search intent data for a keyword',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        keyword: {
-          type: 'string',
-          description: 'The keyword to analyze',
-        },
-        locale: {
-          type: 'string',
-          description: 'Locale (defaults to en-US if not specified)',
-          default: 'en-US',
-        },
-        engine: {
-          type: 'string',
-          description: 'Search engine (google, bing)',
-          default: 'google',
-        },
-      },
-      required: ['keyword'],
-    },
-  },
-  {
-    name: 'moz_keyword_suggestions',
-    description: 'Get related keyword suggestions',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        keyword: {
-          type: 'string',
-          description: 'The seed keyword',
-        },
-        locale: {
-          type: 'string',
-          description: 'Locale (defaults to en-US if not specified)',
-          default: 'en-US',
-        },
-        limit: {
-          type: 'number',
-          description: 'Maximum number of suggestions',
-          default: 1000,
-        },
-      },
-      required: ['keyword'],
-    },
-  },
-  {
-    name: 'moz_keyword_difficulty',
-    description: 'Fetch keyword difficulty score',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        keyword: {
-          type: 'string',
-          description: 'The keyword to analyze',
-        },
-        locale: {
-          type: 'string',
-          description: 'Locale (defaults to en-US if not specified)',
-          default: 'en-US',
-        },
-        engine: {
-          type: 'string',
-          description: 'Search engine',
-          default: 'google',
-        },
-      },
-      required: ['keyword'],
-    },
-  },
-  {
-    name: 'moz_keyword_volume',
-    description: 'Fetch keyword search volume',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        keyword: {
-          type: 'string',
-          description: 'The keyword to analyze',
-        },
-        locale: {
-          type: 'string',
-          description: 'Locale (defaults to en-US if not specified)',
-          default: 'en-US',
-        },
-        engine: {
-          type: 'string',
-          description: 'Search engine',
-          default: 'google',
-        },
-      },
-      required: ['keyword'],
-    },
-  },
-  {
-    name: 'moz_keyword_metrics',
-    description: 'Fetch all keyword metrics (difficulty, volume, organic CTR, priority)',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        keyword: {
-          type: 'string',
-          description: 'The keyword to analyze',
-        },
-        locale: {
-          type: 'string',
-          description: 'Locale (defaults to en-US if not specified)',
-          default: 'en-US',
-        },
-        engine: {
-          type: 'string',
-          description: 'Search engine',
-          default: 'google',
-        },
-      },
-      required: ['keyword'],
-    },
-  },
-  {
-    name: 'moz_keyword_opportunity',
-    description: 'Fetch keyword opportunity (organic CTR) data',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        keyword: {
-          type: 'string',
-          description: 'The keyword to analyze',
-        },
-        locale: {
-          type: 'string',
-          description: 'Locale (defaults to en-US if not specified)',
-          default: 'en-US',
-        },
-        engine: {
-          type: 'string',
-          description: 'Search engine',
-          default: 'google',
-        },
-      },
-      required: ['keyword'],
-    },
-  },
-  {
-    name: 'moz_keyword_priority',
-    description: 'Fetch keyword priority score',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        keyword: {
-          type: 'string',
-          description: 'The keyword to analyze',
-        },
-        locale: {
-          type: 'string',
-          description: 'Locale (defaults to en-US if not specified)',
-          default: 'en-US',
-        },
-        engine: {
-          type: 'string',
-          description: 'Search engine',
-          default: 'google',
-        },
-      },
-      required: ['keyword'],
-    },
-  },
-  {
-    name: 'moz_site_brand_authority',
-    description: 'Fetch Brand Authority for a site',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        site: {
-          type: 'string',
-          description: 'The site domain to analyze',
-        },
+const cacheStore = createCacheStore();
+let cacheTtls: CacheTtls;
+try {
+  cacheTtls = cacheTtlsFromEnv();
+} catch (error) {
+  console.error(`Error: invalid MOZ_CACHE_TTLS: ${error instanceof Error ? error.message : error}`);
+  process.exit(1);
+}
+
+// The account's own variant of a file or directory: <name>.<account><ext>
+function accountPath(file: string, account: string, defaultExt = ''): string {
+  const parsed = path.parse(file);
+  return path.join(parsed.dir, `${parsed.name}.${account}${parsed.ext || defaultExt}`);
+}
+
+// Each account gets its own file for persisted daily usage
+function budgetStateFile(account: string): string | undefined {
+  const file = process.env.MOZ_BUDGET_STATE_FILE;
+  return file ? accountPath(file, account, '.json') : undefined;
+}
+
+// Per-account resources: a client with its own cache namespace and rate
+// limiter, and a row budget with its own daily usage and quota
+interface Account {
+  name: string;
+  client: MozApiClient;
+  budget: RowBudget;
+}
+
+// Tells sessions that resources changed: 'updated' with the account and the
+// resource URI when its data was refetched or edited, 'listChanged' when
+// resources came or went. Updates reach only sessions subscribed under the
+// same account, so one tenant never learns which sites another one reads.
+const resourceEvents = new EventEmitter();
+resourceEvents.setMaxListeners(0);
+
+function subscriptionKey(account: string, uri: string): string {
+  return `${account}\n${uri}`;
+}
+
+function notifyRefreshed(account: string, method: string, params: unknown): void {
+  for (const uri of refreshedResources(method, params)) {
+    resourceEvents.emit('updated', account, uri);
+  }
+}
+
+function createAccount(profile: AccountProfile): Account {
+  return {
+    name: profile.name,
+    client: new MozApiClient(profile.credentials, {
+      cache: cacheStore && new ResponseCache(cacheStore, cacheTtls, profile.name),
+      retry: {
+        ...(process.env.MOZ_MAX_RETRIES && { maxRetries: Number(process.env.MOZ_MAX_RETRIES) }),
       },
-      required: ['site'],
-    },
-  },
-  {
-    name: 'moz_site_metrics',
-    description: 'Fetch metrics for a single site',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        site: {
-          type: 'string',
-          description: 'The site domain to analyze',
-        },
+      ...(process.env.MOZ_REQUESTS_PER_SECOND && { requestsPerSecond: Number(process.env.MOZ_REQUESTS_PER_SECOND) }),
+      ...(process.env.MOZ_API_BASE_URL && { baseUrl: process.env.MOZ_API_BASE_URL }),
+      ...(process.env.MOZ_LEGACY_API_BASE_URL && { legacyBaseUrl: process.env.MOZ_LEGACY_API_BASE_URL }),
+      batch: {
+        ...(process.env.MOZ_BATCH_WINDOW_MS && { windowMs: Number(process.env.MOZ_BATCH_WINDOW_MS) }),
+        ...(process.env.MOZ_BATCH_MAX_SIZE && { maxSize: Number(process.env.MOZ_BATCH_MAX_SIZE) }),
       },
-      required: ['site'],
-    },
-  },
-  {
-    name: 'moz_site_metrics_multiple',
-    description: 'Fetch metrics for multiple sites at once',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        sites: {
-          type: 'array',
-          items: { type: 'string' },
-          description: 'Array of site domains to analyze',
-        },
+      onFetched: (method, params) => notifyRefreshed(profile.name, method, params),
+      insightRules,
+      debug: Boolean(process.env.MOZ_DEBUG),
+    }),
+    budget: new RowBudget(profile.name, {
+      ...(process.env.MOZ_DAILY_ROW_BUDGET && { dailyLimit: Number(process.env.MOZ_DAILY_ROW_BUDGET) }),
+      stateFile: budgetStateFile(profile.name),
+    }),
+  };
+}
+
+// Configured accounts are kept for the life of the process. Accounts of
+// caller-supplied tokens are bounded, since any caller can add one; an evicted
+// account starts over with a new rate limiter and, without
+// MOZ_BUDGET_STATE_FILE, no record of its daily usage.
+const MAX_TOKEN_ACCOUNTS = Number(process.env.MOZ_MAX_TOKEN_ACCOUNTS || 100);
+const accounts = new AccountPool<Account>(createAccount);
+const tokenAccounts = new AccountPool<Account>(createAccount, MAX_TOKEN_ACCOUNTS);
+
+// Historical snapshots of tracked sites and keywords
+const snapshots = new SnapshotStore(
+  process.env.MOZ_SNAPSHOT_FILE || path.join(os.homedir(), '.moz-mcp', 'snapshots.json')
+);
+
+const projectsFile = process.env.MOZ_PROJECTS_FILE || path.join(os.homedir(), '.moz-mcp', 'projects.json');
+const reportsDir = process.env.MOZ_REPORTS_DIR || path.join(os.homedir(), '.moz-mcp', 'reports');
+
+// Named projects of sites, competitors and keyword groups, and saved report
+// documents. The configured accounts share one set, so a project can pick its
+// account; callers with their own X-Moz-Token each get a set of their own.
+interface Workspace {
+  projects: ProjectStore;
+  reports: ReportStore;
+}
+
+const sharedWorkspace: Workspace = {
+  projects: new ProjectStore(projectsFile),
+  reports: new ReportStore(reportsDir),
+};
+
+const tokenWorkspaces = new AccountPool<Workspace>((profile) => ({
+  projects: new ProjectStore(accountPath(projectsFile, profile.name, '.json')),
+  reports: new ReportStore(accountPath(reportsDir, profile.name)),
+}), MAX_TOKEN_ACCOUNTS);
+
+function workspaceFor(mozToken: string | undefined): Workspace {
+  return mozToken ? tokenWorkspaces.get(adHocProfile(mozToken)) : sharedWorkspace;
+}
+
+// Most recent snapshots listed as resources; older ones stay readable by URI
+const LISTED_SNAPSHOTS = 50;
+
+// Row budget per MCP session, unlimited unless set
+const sessionRowLimit = process.env.MOZ_SESSION_ROW_BUDGET ? Number(process.env.MOZ_SESSION_ROW_BUDGET) : undefined;
+
+// Tool declarations, validation and listing
+const registry = new ToolRegistry(tools);
+
+// Server-defined JSON-RPC error codes for Moz failures, so clients can tell
+// them apart without parsing messages
+const MozErrorCode = {
+  RateLimited: -32029,
+  AuthFailed: -32030,
+  QuotaExhausted: -32031,
+  UpstreamError: -32032,
+  InvalidResponse: -32033,
+  BudgetExceeded: -32034,
+} as const;
+
+function toMcpError(error: unknown, toolName: string): McpError {
+  if (error instanceof McpError) {
+    return error;
+  }
+  const message = `Error executing ${toolName}: ${error instanceof Error ? error.message : String(error)}`;
+  if (error instanceof MozInvalidParamsError) {
+    return new McpError(ErrorCode.InvalidParams, message);
+  }
+  if (error instanceof MozRateLimitError) {
+    return new McpError(MozErrorCode.RateLimited, message, { retry_after_ms: error.retryAfterMs });
+  }
+  if (error instanceof MozAuthError) {
+    return new McpError(MozErrorCode.AuthFailed, message);
+  }
+  if (error instanceof MozQuotaExceededError) {
+    return new McpError(MozErrorCode.QuotaExhausted, message);
+  }
+  if (error instanceof RowBudgetExceededError) {
+    return new McpError(MozErrorCode.BudgetExceeded, message, {
+      estimated_rows: error.estimatedRows,
+      remaining_rows: Math.max(0, error.remainingRows),
+    });
+  }
+  if (error instanceof MozResponseError) {
+    return new McpError(MozErrorCode.InvalidResponse, message, { issues: error.issues });
+  }
+  if (error instanceof MozApiError) {
+    return new McpError(MozErrorCode.UpstreamError, message, { status: error.status, rpc_code: error.rpcCode });
+  }
+  return new McpError(ErrorCode.InternalError, message);
+}
+
+// A caller-supplied token decides the account, so a tenant cannot spend the
+// configured accounts' rows by naming one; otherwise an explicit account
+// argument wins over the default profile
+function resolveAccount(name: string | undefined, mozToken: string | undefined): Account {
+  if (mozToken) {
+    const profile = adHocProfile(mozToken);
+    if (name !== undefined && name !== profile.name) {
+      throw new MozInvalidParamsError(`Unknown account "${name}": calls sent with an X-Moz-Token run against that token's account`);
+    }
+    return tokenAccounts.get(profile);
+  }
+  return accounts.get(credentials.resolve(name));
+}
+
+// Keeps the account quota known to the budget reasonably current
+async function refreshQuota(account: Account): Promise<void> {
+  try {
+    const { quota } = await account.client.getQuota();
+    const remaining = typeof quota.provisioned === 'number' && typeof quota.used === 'number'
+      ? quota.provisioned - quota.used
+      : undefined;
+    account.budget.setQuotaRemaining(remaining);
+  } catch (error) {
+    console.error(`Quota lookup for account ${account.name} failed, budgeting without it:`, error instanceof Error ? error.message : error);
+    account.budget.setQuotaRemaining(undefined);
+  }
+}
+
+async function dryRun(budget: SessionBudget, account: Account, name: string, estimatedRows: number): Promise<CallToolResult> {
+  let withinBudget = true;
+  try {
+    await budget.ensureAffordable(estimatedRows, account.budget);
+  } catch (error) {
+    if (!(error instanceof RowBudgetExceededError)) throw error;
+    withinBudget = false;
+  }
+  const result = {
+    tool: name,
+    dry_run: true,
+    estimated_rows: estimatedRows,
+    within_budget: withinBudget,
+    budget: await budget.status(account.budget),
+  };
+  return {
+    content: [
+      {
+        type: 'text',
+        text: JSON.stringify(result, null, 2),
       },
-      required: ['sites'],
-    },
-  },
-  {
-    name: 'moz_site_ranking_keywords',
-    description: 'List ranking keywords for a site',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        site: {
-          type: 'string',
-          description: 'The site domain to analyze',
-        },
-        engine: {
-          type: 'string',
-          description: 'Search engine',
-          default: 'google',
-        },
-        locale: {
-          type: 'string',
-          description: 'Locale (defaults to en-US if not specified)',
-          default: 'en-US',
-        },
-        limit: {
-          type: 'number',
-          description: 'Maximum number of keywords to return',
-          default: 100,
-        },
+    ],
+  };
+}
+
+function formatAge(seconds: number): string {
+  if (seconds < 60) return `${seconds}s`;
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m`;
+  if (seconds < 86400) return `${Math.floor(seconds / 3600)}h`;
+  return `${Math.floor(seconds / 86400)}d`;
+}
+
+// Appends a line telling the caller which results came from the cache
+function withCacheNote(response: CallToolResult, calls: CallRecord[]): CallToolResult {
+  if (calls.length === 0) {
+    return response;
+  }
+  const sources = calls.map(call =>
+    call.cached
+      ? `${call.method} (cached, ${formatAge(call.ageSeconds ?? 0)} old)`
+      : `${call.method} (${call.shared ? 'live, shared with an identical request' : 'live'})`
+  );
+  return {
+    content: [
+      ...response.content,
+      {
+        type: 'text',
+        text: `Data sources: ${sources.join(', ')}`,
       },
-      required: ['site'],
+    ],
+  };
+}
+
+// Moz token the HTTP caller authenticated with, if any
+function callerToken(authInfo: AuthInfo | undefined): string | undefined {
+  const mozToken = authInfo?.extra?.mozToken;
+  return typeof mozToken === 'string' ? mozToken : undefined;
+}
+
+async function listResources(account: Account, { projects, reports }: Workspace): Promise<Resource[]> {
+  const listed: Resource[] = [
+    { uri: QUOTA_URI, name: 'Moz quota', description: 'Rows provisioned and used', mimeType: 'application/json' },
+  ];
+  for (const project of await projects.list()) {
+    listed.push({
+      uri: resourceUri({ kind: 'project', name: project.name }),
+      name: `Project ${project.name}`,
+      description: `${project.site} and ${project.competitors.length} competitors`,
+      mimeType: 'application/json',
+    });
+  }
+  const recent = (await snapshots.list(account.name)).reverse().slice(0, LISTED_SNAPSHOTS);
+  for (const snapshot of recent) {
+    listed.push({
+      uri: resourceUri({ kind: 'snapshot', id: snapshot.id }),
+      name: `Snapshot ${snapshot.id}${snapshot.label ? ` (${snapshot.label})` : ''}`,
+      description: `Taken ${snapshot.taken_at}`,
+      mimeType: 'application/json',
+    });
+  }
+  for (const report of await reports.list()) {
+    listed.push({
+      uri: resourceUri({ kind: 'report', name: report.name }),
+      name: report.name,
+      description: `Report saved ${report.modified_at}`,
+      mimeType: report.mime_type,
+    });
+  }
+  return listed;
+}
+
+async function readResource(
+  account: Account,
+  { projects, reports }: Workspace,
+  uri: string,
+  ref: ResourceRef
+): Promise<ReadResourceResult> {
+  const json = (value: unknown): ReadResourceResult => ({
+    contents: [{ uri, mimeType: 'application/json', text: JSON.stringify(value, null, 2) }],
+  });
+  switch (ref.kind) {
+    case 'quota':
+      return json(await account.client.getQuota());
+    case 'site':
+      return json(await account.client.getSiteMetrics(ref.domain));
+    case 'keyword':
+      return json(await account.client.getKeywordMetrics(ref.keyword, { locale: ref.locale }));
+    case 'project':
+      return json(await projects.get(ref.name));
+    case 'snapshot':
+      return json(await snapshots.get(account.name, ref.id));
+    case 'report': {
+      const { text, mimeType } = await reports.read(ref.name);
+      return { contents: [{ uri, mimeType, text }] };
+    }
+  }
+}
+
+// Each connection gets its own Server, and with it its own session budget
+function createServer(): Server {
+  const server = new Server(
+    {
+      name: 'moz-mcp',
+      version: '1.0.0',
     },
-  },
-  {
-    name: 'moz_competitor_analysis',
-    description: 'Comprehensive competitor analysis by combining site metrics, ranking keywords, and providing competitor identification guidance. Note: Moz API does not automatically identify competitors, but this tool helps analyze potential competitors you specify.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        primary_site: {
-          type: 'string',
-          description: 'The main site to analyze',
-        },
-        competitor_sites: {
-          type: 'array',
-          items: { type: 'string' },
-          description: 'Array of competitor domains to compare against (you need to specify these)',
-          default: [],
-        },
-        target_keyword: {
-          type: 'string',
-          description: 'Primary keyword/topic to focus the analysis on',
-        },
-        locale: {
-          type: 'string',
-          description: 'Locale (defaults to en-US if not specified)',
-          default: 'en-US',
-        },
-        include_keyword_analysis: {
-          type: 'boolean',
-          description: 'Whether to include keyword difficulty and volume analysis for the target keyword',
-          default: true,
-        },
+    {
+      capabilities: {
+        tools: {},
+        resources: {
+          subscribe: true,
+          listChanged: true,
+        },
+        prompts: {},
       },
-      required: ['primary_site', 'target_keyword'],
-    },
-  },
-];
+    }
+  );
+  const sessionBudget = new SessionBudget(sessionRowLimit);
 
-// Handle list tools request
-server.setRequestHandler(ListToolsRequestSchema, async () => {
-  return {
-    tools,
+  // Resource URIs this session subscribed to, keyed by their account
+  const subscriptions = new Set<string>();
+  const onUpdated = (account: string, uri: string) => {
+    if (subscriptions.has(subscriptionKey(account, uri))) {
+      server.sendResourceUpdated({ uri }).catch(() => undefined);
+    }
+  };
+  const onListChanged = () => {
+    server.sendResourceListChanged().catch(() => undefined);
+  };
+  resourceEvents.on('updated', onUpdated);
+  resourceEvents.on('listChanged', onListChanged);
+  server.onclose = () => {
+    resourceEvents.off('updated', onUpdated);
+    resourceEvents.off('listChanged', onListChanged);
   };
-});
 
-// Handle tool execution
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-  const { name, arguments: args } = request.params;
+  // Handle list tools request
+  server.setRequestHandler(ListToolsRequestSchema, async () => {
+    return { tools: registry.list() };
+  });
 
-  try {
-    switch (name) {
-      case 'moz_quota': {
-        const result = await mozClient.getQuota();
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify(result, null, 2),
-            },
-          ],
-        };
-      }
+  // Handle tool execution
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+    const { name } = request.params;
 
-      // V3 API Methods - Core functionality
-      case 'moz_keyword_search_intent': {
-        if (!args || !args.keyword) {
-          throw new McpError(
-            ErrorCode.InvalidParams,
-            'Missing required parameter: keyword'
-          );
-        }
-        const result = await mozClient.getKeywordSearchIntent(
-          args.keyword as string,
-          {
-            locale: args.locale as string | undefined,
-            engine: args.engine as string | undefined,
-          }
-        );
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify(result, null, 2),
-            },
-          ],
-        };
-      }
+    let tool: AnyTool;
+    let args: ParsedArgs;
+    let account: Account;
+    const mozToken = callerToken(extra.authInfo);
+    const workspace = workspaceFor(mozToken);
+    try {
+      tool = registry.get(name);
+      args = await registry.parseArgs(name, request.params.arguments, workspace.projects);
+      account = resolveAccount(args.account, mozToken);
+    } catch (error) {
+      throw toMcpError(error, name);
+    }
+    const estimatedRows = tool.cost?.(args) ?? 1;
 
-      case 'moz_keyword_suggestions': {
-        if (!args || !args.keyword) {
-          throw new McpError(
-            ErrorCode.InvalidParams,
-            'Missing required parameter: keyword'
-          );
-        }
-        const result = await mozClient.getKeywordSuggestions(
-          args.keyword as string,
-          {
-            locale: args.locale as string | undefined,
-            limit: args.limit as number | undefined,
-          }
-        );
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify(result, null, 2),
-            },
-          ],
-        };
-      }
+    if (args.dry_run) {
+      return dryRun(sessionBudget, account, name, estimatedRows);
+    }
 
-      case 'moz_keyword_difficulty': {
-        if (!args || !args.keyword) {
-          throw new McpError(
-            ErrorCode.InvalidParams,
-            'Missing required parameter: keyword'
-          );
-        }
-        const result = await mozClient.getKeywordDifficulty(
-          args.keyword as string,
-          {
-            locale: args.locale as string | undefined,
-            engine: args.engine as string | undefined,
-          }
-        );
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify(result, null, 2),
-            },
-          ],
-        };
+    let reservation: RowReservation;
+    try {
+      await sessionBudget.ensureAffordable(estimatedRows, account.budget);
+      if (estimatedRows > 0 && account.budget.quotaIsStale()) {
+        await refreshQuota(account);
       }
+      reservation = await sessionBudget.reserve(estimatedRows, account.budget);
+    } catch (error) {
+      throw toMcpError(error, name);
+    }
 
-      case 'moz_keyword_volume': {
-        if (!args || !args.keyword) {
-          throw new McpError(
-            ErrorCode.InvalidParams,
-            'Missing required parameter: keyword'
-          );
-        }
-        const result = await mozClient.getKeywordVolume(
-          args.keyword as string,
-          {
-            locale: args.locale as string | undefined,
-            engine: args.engine as string | undefined,
-          }
-        );
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify(result, null, 2),
-            },
-          ],
-        };
-      }
+    const context = createCallContext({ fresh: args.fresh });
+    try {
+      const response = await runInCallContext(context, () => runTool(tool, args, {
+        account: account.name,
+        client: account.client,
+        projects: workspace.projects,
+        snapshots,
+        reports: workspace.reports,
+        resourceUpdated: uri => resourceEvents.emit('updated', account.name, uri),
+        resourceListChanged: () => resourceEvents.emit('listChanged'),
+      }));
+      return withCacheNote(response, context.calls);
+    } catch (error) {
+      throw toMcpError(error, name);
+    } finally {
+      await reservation.settle(rowsUsed(context.calls));
+    }
+  });
 
-      case 'moz_keyword_metrics': {
-        if (!args || !args.keyword) {
-          throw new McpError(
-            ErrorCode.InvalidParams,
-            'Missing required parameter: keyword'
-          );
-        }
-        const result = await mozClient.getKeywordMetrics(
-          args.keyword as string,
-          {
-            locale: args.locale as string | undefined,
-            engine: args.engine as string | undefined,
-          }
-        );
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify(result, null, 2),
-            },
-          ],
-        };
-      }
+  server.setRequestHandler(ListResourcesRequestSchema, async (_request, extra) => {
+    try {
+      const mozToken = callerToken(extra.authInfo);
+      return { resources: await listResources(resolveAccount(undefined, mozToken), workspaceFor(mozToken)) };
+    } catch (error) {
+      throw toMcpError(error, 'resources/list');
+    }
+  });
 
-      case 'moz_keyword_opportunity': {
-        if (!args || !args.keyword) {
-          throw new McpError(
-            ErrorCode.InvalidParams,
-            'Missing required parameter: keyword'
-          );
-        }
-        const result = await mozClient.getKeywordOpportunity(
-          args.keyword as string,
-          {
-            locale: args.locale as string | undefined,
-            engine: args.engine as string | undefined,
-          }
-        );
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify(result, null, 2),
-            },
-          ],
-        };
-      }
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+    return { resourceTemplates: RESOURCE_TEMPLATES };
+  });
 
-      case 'moz_keyword_priority': {
-        if (!args || !args.keyword) {
-          throw new McpError(
-            ErrorCode.InvalidParams,
-            'Missing required parameter: keyword'
-          );
-        }
-        const result = await mozClient.getKeywordPriority(
-          args.keyword as string,
-          {
-            locale: args.locale as string | undefined,
-            engine: args.engine as string | undefined,
-          }
-        );
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify(result, null, 2),
-            },
-          ],
-        };
-      }
+  // Reads are served from the cache when possible and budgeted like tool calls
+  server.setRequestHandler(ReadResourceRequestSchema, async (request, extra) => {
+    const { uri } = request.params;
+    let account: Account;
+    let ref: ResourceRef;
+    let reservation: RowReservation;
+    const mozToken = callerToken(extra.authInfo);
+    try {
+      ref = parseResourceUri(uri);
+      account = resolveAccount(undefined, mozToken);
+      reservation = await sessionBudget.reserve(ref.kind === 'site' || ref.kind === 'keyword' ? 1 : 0, account.budget);
+    } catch (error) {
+      throw toMcpError(error, uri);
+    }
 
-      case 'moz_site_brand_authority': {
-        if (!args || !args.site) {
-          throw new McpError(
-            ErrorCode.InvalidParams,
-            'Missing required parameter: site'
-          );
-        }
-        const result = await mozClient.getSiteBrandAuthority(args.site as string);
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify(result, null, 2),
-            },
-          ],
-        };
-      }
+    const context = createCallContext();
+    try {
+      return await runInCallContext(context, () => readResource(account, workspaceFor(mozToken), uri, ref));
+    } catch (error) {
+      throw toMcpError(error, uri);
+    } finally {
+      await reservation.settle(rowsUsed(context.calls));
+    }
+  });
 
-      case 'moz_site_metrics': {
-        if (!args || !args.site) {
-          throw new McpError(
-            ErrorCode.InvalidParams,
-            'Missing required parameter: site'
-          );
-        }
-        const result = await mozClient.getSiteMetrics(args.site as string);
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify(result, null, 2),
-            },
-          ],
-        };
-      }
+  server.setRequestHandler(ListPromptsRequestSchema, async () => {
+    return { prompts: listPrompts() };
+  });
 
-      case 'moz_site_metrics_multiple': {
-        if (!args || !args.sites) {
-          throw new McpError(
-            ErrorCode.InvalidParams,
-            'Missing required parameter: sites'
-          );
-        }
-        const result = await mozClient.getSiteMetricsMultiple(args.sites as string[]);
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify(result, null, 2),
-            },
-          ],
-        };
-      }
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    try {
+      return getPrompt(request.params.name, request.params.arguments);
+    } catch (error) {
+      throw toMcpError(error, `prompt ${request.params.name}`);
+    }
+  });
 
-      case 'moz_site_ranking_keywords': {
-        if (!args || !args.site) {
-          throw new McpError(
-            ErrorCode.InvalidParams,
-            'Missing required parameter: site'
-          );
-        }
-        const result = await mozClient.getSiteRankingKeywords(
-          args.site as string,
-          {
-            engine: args.engine as string | undefined,
-            locale: args.locale as string | undefined,
-            limit: args.limit as number | undefined,
-          }
-        );
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify(result, null, 2),
-            },
-          ],
-        };
-      }
+  // Subscriptions belong to the account the session reads resources with
+  server.setRequestHandler(SubscribeRequestSchema, async (request, extra) => {
+    let account: Account;
+    try {
+      parseResourceUri(request.params.uri);
+      account = resolveAccount(undefined, callerToken(extra.authInfo));
+    } catch (error) {
+      throw toMcpError(error, 'resources/subscribe');
+    }
+    subscriptions.add(subscriptionKey(account.name, request.params.uri));
+    return {};
+  });
 
-      case 'moz_competitor_analysis': {
-        if (!args || !args.primary_site || !args.target_keyword) {
-          throw new McpError(
-            ErrorCode.InvalidParams,
-            'Missing required parameters: primary_site, target_keyword'
-          );
-        }
-        const result = await mozClient.getCompetitorAnalysis(
-          args.primary_site as string,
-          args.competitor_sites as string[],
-          args.target_keyword as string,
-          {
-            locale: args.locale as string | undefined,
-            include_keyword_analysis: args.include_keyword_analysis as boolean | undefined,
-          }
-        );
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify(result, null, 2),
-            },
-          ],
-        };
-      }
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request, extra) => {
+    let account: Account;
+    try {
+      account = resolveAccount(undefined, callerToken(extra.authInfo));
+    } catch (error) {
+      throw toMcpError(error, 'resources/unsubscribe');
+    }
+    subscriptions.delete(subscriptionKey(account.name, request.params.uri));
+    return {};
+  });
 
-      default:
-        throw new McpError(
-          ErrorCode.MethodNotFound,
-          `Unknown tool: ${name}`
-        );
+  return server;
+}
+
+// Reads `--name value` or `--name=value` from the command line
+function cliOption(name: string): string | undefined {
+  const args = process.argv.slice(2);
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === `--${name}`) {
+      return args[i + 1];
+    }
+    if (args[i].startsWith(`--${name}=`)) {
+      return args[i].slice(name.length + 3);
     }
-  } catch (error) {
-    throw new McpError(
-      ErrorCode.InternalError,
-      `Error executing ${name}: ${error instanceof Error ? error.message : String(error)}`
-    );
   }
-});
+  return undefined;
+}
+
+// Startup self-test: tries each configured account's auth modes and reports
+// which one works. Failures are logged, not fatal.
+async function checkAccountAuth(): Promise<void> {
+  for (const name of credentials.names()) {
+    try {
+      const checks = await accounts.get(credentials.resolve(name)).client.checkAuth();
+      const working = checks.find(check => check.ok);
+      if (working) {
+        console.error(`Account ${name}: authenticated with ${working.mode}`);
+      } else {
+        const reasons = checks.map(check => `${check.mode}: ${check.error}`).join('; ');
+        console.error(`Account ${name}: authentication failed (${reasons})`);
+      }
+    } catch (error) {
+      console.error(`Account ${name}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+}
+
+async function startStdio(): Promise<() => Promise<void>> {
+  const server = createServer();
+  const transport = new StdioServerTransport();
+  await server.connect(transport);
+  console.error('Moz MCP server running on stdio');
+  return () => server.close();
+}
+
+async function startHttp(): Promise<() => Promise<void>> {
+  const httpServer = await startHttpServer({
+    port: Number(cliOption('port') || process.env.MCP_HTTP_PORT || 3000),
+    host: cliOption('host') || process.env.MCP_HTTP_HOST || '127.0.0.1',
+    authTokens: (process.env.MCP_AUTH_TOKENS || '').split(',').map(t => t.trim()).filter(Boolean),
+    createServer,
+  });
+  return () => httpServer.close();
+}
 
 // Start the server
 async function main() {
   try {
-    const transport = new StdioServerTransport();
-    await server.connect(transport);
-    console.error('Moz MCP server running on stdio');
+    const mode = cliOption('transport') || process.env.MCP_TRANSPORT || 'stdio';
+    if (mode !== 'stdio' && mode !== 'http') {
+      console.error(`Error: unknown transport "${mode}" (expected stdio or http)`);
+      process.exit(1);
+    }
+    // In HTTP mode callers may bring their own token, so no account is required up front
+    if (credentials.size === 0 && mode === 'stdio') {
+      console.error('Error: MOZ_API_TOKEN environment variable or MOZ_ACCOUNTS_FILE is required');
+      process.exit(1);
+    }
+    const stop = mode === 'http' ? await startHttp() : await startStdio();
+    // Runs in the background so a slow Moz API does not hold up the handshake
+    if (process.env.MOZ_AUTH_CHECK !== 'off') {
+      void checkAccountAuth();
+    }
+
+    const shutdown = (signal: string) => {
+      console.error(`Received ${signal}, shutting down gracefully...`);
+      stop()
+        .catch((error) => console.error('Error during shutdown:', error))
+        .finally(() => process.exit(0));
+    };
     
     // Keep the process alive with proper signal handling
-    process.on('SIGINT', () => {
-      console.error('Received SIGINT, shutting down gracefully...');
-      process.exit(0);
-    });
-    
-    process.on('SIGTERM', () => {
-      console.error('Received SIGTERM, shutting down gracefully...');
-      process.exit(0);
-    });
+    process.on('SIGINT', () => shutdown('SIGINT'));
+    process.on('SIGTERM', () => shutdown('SIGTERM'));
     
     // Handle uncaught exceptions
     process.on('uncaughtException', (error) => {
@@ -671,4 +689,4 @@ async function main() {
 main().catch((error) => {
   console.error('Fatal error in main:', error);
   process.exit(1);
-});
\ No newline at end of file
+});
@@ -0,0 +1,494 @@
+import { readFileSync } from 'fs';
+import { z } from 'zod';
+import { normalizeKeyword } from './keywords.js';
+import {
+  CompetitorAnalysis,
+  CompetitorData,
+  Fetched,
+  INSIGHT_COMPARATORS,
+  INSIGHT_SEVERITIES,
+  InsightComparator,
+  InsightFinding,
+  InsightSeverity,
+  isFetchError,
+} from './moz-types.js';
+
+// Competitor analysis insights as data-driven rules. A rule reads one metric,
+// compares it with its thresholds in order and reports a finding for the first
+// one that matches:
+//
+//   { "id": "primary-spam-score", "metric": "primary.spam_score", "comparator": ">=",
+//     "thresholds": [{ "value": 61, "severity": "critical", "label": "high" },
+//                    { "value": 31, "label": "medium" }],
+//     "severity": "warning", "message": "Primary site spam score is {value}% ({label} risk)" }
+//
+// Metric paths resolve against the analysis plus a summary of it: `primary`
+// and `competitors.*` with each site's key metrics and, for competitors, their
+// gap to the primary site; `keyword` with the target keyword's metrics; and
+// `summary` with counts across competitors. A `*` segment evaluates the rule
+// once per element. Message templates fill in {value}, {label}, {threshold},
+// {site} and any metric path, e.g. {primary.linking_domains}.
+//
+// Custom rules come from a JSON file (MOZ_INSIGHT_RULES_FILE):
+//
+//   { "include_defaults": true, "disabled": ["primary-page-authority"], "rules": [...] }
+//
+// A custom rule with the id of a default rule replaces it. Rules are checked
+// when they are loaded, including that their metric path exists.
+
+// Fields of the summary views, by view; competitors has one entry per competitor
+const SITE_FIELDS: (keyof SiteMetrics)[] = [
+  'site', 'domain_authority', 'page_authority', 'spam_score', 'linking_domains',
+  'brand_authority', 'ranking_keywords', 'target_rank',
+];
+const VIEW_FIELDS = new Map<string, string[]>([
+  ['primary', SITE_FIELDS],
+  ['competitors', [
+    ...SITE_FIELDS, 'domain_authority_gap', 'page_authority_gap', 'linking_domains_gap',
+    'brand_authority_gap', 'ranking_keywords_gap', 'target_rank_gap', 'target_rank_only',
+  ]],
+  ['keyword', ['difficulty', 'volume', 'organic_ctr', 'priority']],
+  ['summary', [
+    'competitors', 'brand_authority_compared', 'higher_brand_authority', 'lower_brand_authority',
+    'higher_domain_authority',
+  ]],
+]);
+
+// Paths into the analysis itself are only checked up to their root
+const ANALYSIS_FIELDS: (keyof CompetitorAnalysis)[] = [
+  'primary_site', 'target_keyword', 'locale', 'analysis_timestamp', 'primary_site_data',
+  'competitor_data', 'keyword_analysis', 'competitor_identification_guidance',
+];
+
+// Why the metric path cannot resolve, or undefined when it can
+function unknownMetric(metric: string): string | undefined {
+  const [root, ...rest] = metric.split('.');
+  const fields = VIEW_FIELDS.get(root);
+  if (!fields) {
+    return (ANALYSIS_FIELDS as string[]).includes(root)
+      ? undefined
+      : `unknown metric "${metric}" (paths start with one of ${[...VIEW_FIELDS.keys(), ...ANALYSIS_FIELDS].join(', ')})`;
+  }
+  if (root === 'competitors' && !(rest[0] === '*' || /^\d+$/.test(rest[0] ?? ''))) {
+    return `unknown metric "${metric}" (competitors is followed by * or an index, e.g. competitors.*.spam_score)`;
+  }
+  const field = root === 'competitors' ? rest.slice(1) : rest;
+  if (field.length !== 1 || !fields.includes(field[0])) {
+    return `unknown metric "${metric}" (${root} has ${fields.join(', ')})`;
+  }
+  return undefined;
+}
+
+const ThresholdSchema = z.object({
+  value: z.number(),
+  // Override the rule's severity and message for this threshold
+  severity: z.enum(INSIGHT_SEVERITIES).optional(),
+  label: z.string().optional(),
+  message: z.string().optional(),
+}).strict();
+
+export const InsightRuleSchema = z.object({
+  id: z.string().min(1),
+  metric: z.string().min(1).superRefine((metric, context) => {
+    const problem = unknownMetric(metric);
+    if (problem) {
+      context.addIssue({ code: z.ZodIssueCode.custom, message: problem });
+    }
+  }),
+  comparator: z.enum(INSIGHT_COMPARATORS),
+  thresholds: z.array(ThresholdSchema).default([]),
+  severity: z.enum(INSIGHT_SEVERITIES).default('info'),
+  message: z.string().min(1),
+}).strict().refine(
+  rule => rule.comparator === 'exists' || rule.comparator === 'missing' || rule.thresholds.length > 0,
+  { message: 'needs at least one threshold for its comparator', path: ['thresholds'] }
+);
+
+// A rule as written, and as checked with defaults filled in
+export type InsightRuleInput = z.input<typeof InsightRuleSchema>;
+export type InsightRule = z.output<typeof InsightRuleSchema>;
+
+const InsightRulesFileSchema = z.object({
+  include_defaults: z.boolean().default(true),
+  disabled: z.array(z.string()).default([]),
+  rules: z.array(InsightRuleSchema).default([]),
+}).strict();
+
+const DEFAULT_RULES: InsightRuleInput[] = [
+  {
+    id: 'primary-brand-authority',
+    metric: 'primary.brand_authority',
+    comparator: '>=',
+    thresholds: [
+      { value: 70, label: 'Excellent' },
+      { value: 50, label: 'Good' },
+      { value: 30, label: 'Fair' },
+      { value: 0, label: 'Needs improvement', severity: 'warning' },
+    ],
+    message: 'Primary site brand authority: {value} ({label})',
+  },
+  {
+    id: 'primary-domain-authority',
+    metric: 'primary.domain_authority',
+    comparator: '>=',
+    thresholds: [
+      { value: 60, label: 'Strong' },
+      { value: 40, label: 'Moderate' },
+      { value: 0, label: 'Weak', severity: 'warning' },
+    ],
+    message: 'Primary site Domain Authority: {value} ({label})',
+  },
+  {
+    id: 'primary-page-authority',
+    metric: 'primary.page_authority',
+    comparator: '<',
+    thresholds: [{ value: 30 }],
+    severity: 'warning',
+    message: 'Primary site Page Authority is only {value}; its home page has little link equity to pass on',
+  },
+  {
+    id: 'primary-spam-score',
+    metric: 'primary.spam_score',
+    comparator: '>=',
+    thresholds: [
+      { value: 61, label: 'high', severity: 'critical' },
+      { value: 31, label: 'medium' },
+    ],
+    severity: 'warning',
+    message: 'Primary site spam score is {value}% ({label} risk); review its backlink profile',
+  },
+  {
+    id: 'primary-linking-domains',
+    metric: 'primary.linking_domains',
+    comparator: '<',
+    thresholds: [{ value: 50 }],
+    severity: 'warning',
+    message: 'Primary site has only {value} linking root domains',
+  },
+  {
+    id: 'primary-ranking-keywords',
+    metric: 'primary.ranking_keywords',
+    comparator: '>',
+    thresholds: [{ value: 0 }],
+    message: 'Primary site ranks for {value} keywords (showing up to 100)',
+  },
+  {
+    id: 'target-keyword-difficulty',
+    metric: 'keyword.difficulty',
+    comparator: '>=',
+    thresholds: [
+      { value: 70, label: 'Very Hard', severity: 'warning' },
+      { value: 50, label: 'Hard', severity: 'warning' },
+      { value: 30, label: 'Medium' },
+      { value: 1, label: 'Easy' },
+    ],
+    message: 'Target keyword "{target_keyword}" difficulty: {value}% ({label})',
+  },
+  {
+    id: 'target-keyword-volume',
+    metric: 'keyword.volume',
+    comparator: '>',
+    thresholds: [{ value: 0 }],
+    message: 'Target keyword monthly search volume: {value}',
+  },
+  {
+    id: 'target-keyword-rank',
+    metric: 'primary.target_rank',
+    comparator: '<=',
+    thresholds: [
+      { value: 3, label: 'top 3' },
+      { value: 10, label: 'first page' },
+      { value: 100, label: 'beyond the first page', severity: 'warning' },
+    ],
+    message: 'Primary site ranks for target keyword "{target_keyword}" at position {value} ({label})',
+  },
+  {
+    id: 'target-keyword-unranked',
+    metric: 'primary.target_rank',
+    comparator: 'missing',
+    severity: 'warning',
+    message: 'Primary site does not appear to rank in top 100 for target keyword "{target_keyword}"',
+  },
+  {
+    id: 'competitive-landscape',
+    metric: 'summary.brand_authority_compared',
+    comparator: '>',
+    thresholds: [{ value: 0 }],
+    message: 'Competitive landscape: {summary.higher_brand_authority} competitors have higher brand authority, {summary.lower_brand_authority} have lower',
+  },
+  {
+    id: 'competitor-domain-authority-gap',
+    metric: 'competitors.*.domain_authority_gap',
+    comparator: '>=',
+    thresholds: [
+      { value: 20, severity: 'critical' },
+      { value: 10 },
+    ],
+    severity: 'warning',
+    message: '{site} has a Domain Authority {value} points higher than the primary site ({domain_authority} vs {primary.domain_authority})',
+  },
+  {
+    id: 'competitor-linking-domains-gap',
+    metric: 'competitors.*.linking_domains_gap',
+    comparator: '>',
+    thresholds: [{ value: 0 }],
+    severity: 'warning',
+    message: '{site} has {value} more linking root domains than the primary site ({linking_domains} vs {primary.linking_domains})',
+  },
+  {
+    id: 'competitor-spam-score',
+    metric: 'competitors.*.spam_score',
+    comparator: '>=',
+    thresholds: [{ value: 61 }],
+    message: '{site} has a high spam score ({value}%); its links are a poor model to follow',
+  },
+  {
+    id: 'competitor-ranking-keywords-gap',
+    metric: 'competitors.*.ranking_keywords_gap',
+    comparator: '>',
+    thresholds: [{ value: 0 }],
+    message: '{site} ranks for {value} more of the fetched keywords than the primary site',
+  },
+  {
+    id: 'competitor-target-rank-gap',
+    metric: 'competitors.*.target_rank_gap',
+    comparator: '>',
+    thresholds: [{ value: 0 }],
+    severity: 'warning',
+    message: '{site} outranks the primary site for "{target_keyword}" by {value} positions (position {target_rank} vs {primary.target_rank})',
+  },
+  {
+    id: 'competitor-target-rank-only',
+    metric: 'competitors.*.target_rank_only',
+    comparator: '==',
+    thresholds: [{ value: 1 }],
+    severity: 'warning',
+    message: '{site} ranks for "{target_keyword}" at position {target_rank} where the primary site does not rank',
+  },
+];
+
+export const DEFAULT_INSIGHT_RULES: InsightRule[] = DEFAULT_RULES.map(rule => InsightRuleSchema.parse(rule));
+
+// Rules from the file, on top of the defaults unless it says otherwise. Throws
+// with the file name and the offending rule on invalid configuration.
+export function loadInsightRules(file?: string): InsightRule[] {
+  if (!file) {
+    return DEFAULT_INSIGHT_RULES;
+  }
+  const parsed = InsightRulesFileSchema.safeParse(JSON.parse(readFileSync(file, 'utf-8')));
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new Error(`Invalid insight rules in ${file} at ${issue.path.join('.') || 'top level'}: ${issue.message}`);
+  }
+  const config = parsed.data;
+  const custom = new Set(config.rules.map(rule => rule.id));
+  const disabled = new Set(config.disabled);
+  return [
+    ...(config.include_defaults ? DEFAULT_INSIGHT_RULES.filter(rule => !custom.has(rule.id)) : []),
+    ...config.rules,
+  ].filter(rule => !disabled.has(rule.id));
+}
+
+// Key metrics of one site. undefined means the data was not fetched, null that
+// it was fetched and has no value (e.g. the site does not rank for the keyword).
+interface SiteMetrics {
+  site: string;
+  domain_authority?: number | null;
+  page_authority?: number | null;
+  spam_score?: number | null;
+  linking_domains?: number | null;
+  brand_authority?: number | null;
+  ranking_keywords?: number;
+  target_rank?: number | null;
+}
+
+function fetched<T>(value: Fetched<T> | undefined): T | undefined {
+  return value && !isFetchError(value) ? value : undefined;
+}
+
+function siteMetrics(site: CompetitorData, targetKeyword: string): SiteMetrics {
+  const metrics = fetched(site.site_metrics)?.site_metrics;
+  const brandAuthority = fetched(site.brand_authority);
+  const rankings = fetched(site.ranking_keywords)?.ranking_keywords;
+  const target = normalizeKeyword(targetKeyword);
+  return {
+    site: site.site,
+    ...(metrics && {
+      domain_authority: metrics.domain_authority ?? null,
+      page_authority: metrics.page_authority ?? null,
+      spam_score: metrics.spam_score ?? null,
+      linking_domains: metrics.root_domains_to_root_domain ?? null,
+    }),
+    ...(brandAuthority && { brand_authority: brandAuthority.brand_authority ?? null }),
+    ...(rankings && {
+      ranking_keywords: rankings.length,
+      target_rank: rankings.find(row => normalizeKeyword(row.keyword) === target)?.rank_position ?? null,
+    }),
+  };
+}
+
+// Competitor value minus primary value where both are known
+function gap(competitor: number | null | undefined, primary: number | null | undefined): number | undefined {
+  return typeof competitor === 'number' && typeof primary === 'number' ? competitor - primary : undefined;
+}
+
+// The analysis with the summary views the metric paths refer to
+export function insightScope(analysis: CompetitorAnalysis): Record<string, unknown> {
+  const primary = siteMetrics({ site: analysis.primary_site, ...analysis.primary_site_data }, analysis.target_keyword);
+  const competitors = analysis.competitor_data.map((competitor) => {
+    const metrics = siteMetrics(competitor, analysis.target_keyword);
+    return {
+      ...metrics,
+      domain_authority_gap: gap(metrics.domain_authority, primary.domain_authority),
+      page_authority_gap: gap(metrics.page_authority, primary.page_authority),
+      linking_domains_gap: gap(metrics.linking_domains, primary.linking_domains),
+      brand_authority_gap: gap(metrics.brand_authority, primary.brand_authority),
+      ranking_keywords_gap: gap(metrics.ranking_keywords, primary.ranking_keywords),
+      // Positions the competitor ranks above the primary site
+      target_rank_gap: gap(primary.target_rank, metrics.target_rank),
+      // 1 when the competitor ranks for the target keyword and the primary site does not
+      target_rank_only: primary.target_rank === null && typeof metrics.target_rank === 'number' ? 1 : undefined,
+    };
+  });
+  const keywordMetrics = fetched(analysis.keyword_analysis?.metrics)?.keyword_metrics;
+  const difficulty = fetched(analysis.keyword_analysis?.difficulty)?.keyword_metrics;
+  const volume = fetched(analysis.keyword_analysis?.volume)?.keyword_metrics;
+  const compared = competitors.filter(competitor => competitor.brand_authority_gap !== undefined);
+
+  return {
+    ...analysis,
+    primary,
+    competitors,
+    keyword: {
+      difficulty: difficulty?.difficulty ?? keywordMetrics?.difficulty,
+      volume: volume?.volume ?? keywordMetrics?.volume,
+      organic_ctr: keywordMetrics?.organic_ctr,
+      priority: keywordMetrics?.priority,
+    },
+    summary: {
+      competitors: competitors.length,
+      brand_authority_compared: compared.filter(competitor => competitor.brand_authority_gap !== 0).length,
+      higher_brand_authority: compared.filter(competitor => competitor.brand_authority_gap! > 0).length,
+      lower_brand_authority: compared.filter(competitor => competitor.brand_authority_gap! < 0).length,
+      higher_domain_authority: competitors.filter(competitor => (competitor.domain_authority_gap ?? 0) > 0).length,
+    },
+  };
+}
+
+function lookup(scope: unknown, path: string[]): unknown {
+  let value = scope;
+  for (const segment of path) {
+    if (typeof value !== 'object' || value === null) {
+      return undefined;
+    }
+    value = (value as Record<string, unknown>)[segment];
+  }
+  return value;
+}
+
+interface Resolved {
+  value: unknown;
+  // The element a `*` segment resolved to, for per-element placeholders
+  element?: Record<string, unknown>;
+}
+
+function resolveMetric(scope: Record<string, unknown>, metric: string): Resolved[] {
+  const segments = metric.split('.');
+  const star = segments.indexOf('*');
+  if (star < 0) {
+    return [{ value: lookup(scope, segments) }];
+  }
+  const list = lookup(scope, segments.slice(0, star));
+  if (!Array.isArray(list)) {
+    return [];
+  }
+  return list.map(element => ({ value: lookup(element, segments.slice(star + 1)), element }));
+}
+
+function compare(value: number, comparator: InsightComparator, threshold: number): boolean {
+  switch (comparator) {
+    case '>=': return value >= threshold;
+    case '>': return value > threshold;
+    case '<=': return value <= threshold;
+    case '<': return value < threshold;
+    case '==': return value === threshold;
+    case '!=': return value !== threshold;
+    default: return false;
+  }
+}
+
+function formatValue(value: unknown): string {
+  if (typeof value === 'number') {
+    return value.toLocaleString('en-US');
+  }
+  return value === null || value === undefined ? 'unknown' : String(value);
+}
+
+// Fills {name} placeholders from the locals, then the matched element, then the
+// whole scope
+function fillTemplate(
+  template: string,
+  locals: Record<string, unknown>,
+  element: Record<string, unknown> | undefined,
+  scope: Record<string, unknown>
+): string {
+  return template.replace(/\{([\w.*-]+)\}/g, (_, name: string) => {
+    if (name in locals) {
+      return formatValue(locals[name]);
+    }
+    const path = name.split('.');
+    const fromElement = element && lookup(element, path);
+    return formatValue(fromElement ?? lookup(scope, path));
+  });
+}
+
+// Findings of the rules that match, in rule order. Rules whose metric was not
+// fetched produce nothing.
+export function evaluateInsights(analysis: CompetitorAnalysis, rules: InsightRule[] = DEFAULT_INSIGHT_RULES): InsightFinding[] {
+  const scope = insightScope(analysis);
+  const findings: InsightFinding[] = [];
+
+  for (const rule of rules) {
+    for (const { value, element } of resolveMetric(scope, rule.metric)) {
+      let matched: { severity: InsightSeverity; message: string; label?: string; threshold?: number } | undefined;
+      if (rule.comparator === 'exists' || rule.comparator === 'missing') {
+        if (value !== undefined && (value === null) === (rule.comparator === 'missing')) {
+          matched = { severity: rule.severity, message: rule.message };
+        }
+      } else if (typeof value === 'number') {
+        const threshold = rule.thresholds.find(candidate => compare(value, rule.comparator, candidate.value));
+        if (threshold) {
+          matched = {
+            severity: threshold.severity ?? rule.severity,
+            message: threshold.message ?? rule.message,
+            label: threshold.label,
+            threshold: threshold.value,
+          };
+        }
+      }
+      if (!matched) {
+        continue;
+      }
+
+      const site = typeof element?.site === 'string' ? element.site : undefined;
+      findings.push({
+        id: rule.id,
+        severity: matched.severity,
+        message: fillTemplate(
+          matched.message,
+          { value, label: matched.label, threshold: matched.threshold, ...(site && { site }) },
+          element,
+          scope
+        ),
+        evidence: {
+          metric: rule.metric,
+          value: typeof value === 'number' || typeof value === 'string' ? value : null,
+          comparator: rule.comparator,
+          ...(matched.threshold !== undefined && { threshold: matched.threshold }),
+          ...(site && { site }),
+        },
+      });
+    }
+  }
+  return findings;
+}
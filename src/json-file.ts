@@ -0,0 +1,34 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+// Small JSON documents on disk, used by the snapshot and project stores
+
+export async function readJsonFile<T>(file: string, fallback: T): Promise<T> {
+  try {
+    return JSON.parse(await fs.readFile(file, 'utf-8')) as T;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return fallback;
+    }
+    throw error;
+  }
+}
+
+// Written to a temporary file first so a crash never leaves half a file
+export async function writeJsonFile(file: string, value: unknown, indent?: number): Promise<void> {
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  const temporary = `${file}.${process.pid}.tmp`;
+  await fs.writeFile(temporary, JSON.stringify(value, null, indent));
+  await fs.rename(temporary, file);
+}
+
+// Runs read-modify-write updates of one file one at a time
+export class SerialWriter {
+  private queue: Promise<unknown> = Promise.resolve();
+
+  run<T>(update: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(update);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+}
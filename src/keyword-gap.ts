@@ -0,0 +1,165 @@
+import { normalizeKeyword } from './keywords.js';
+import { KeywordGapResult, KeywordGapRow, RankingKeyword } from './moz-types.js';
+import { TableColumn, toCsv, toMarkdownTable } from './table.js';
+
+// Content gap analysis over ranking keyword sets that were already fetched.
+// A keyword lands in one of three sections:
+//   missing - competitors rank for it, the primary site does not
+//   weaker  - both rank, but a competitor ranks higher than the primary site
+//   unique  - only the primary site ranks for it
+// Shared keywords where the primary site ranks best appear in none of them.
+
+export const GAP_SORT_KEYS = ['opportunity', 'volume', 'difficulty'] as const;
+export type GapSortKey = typeof GAP_SORT_KEYS[number];
+
+export interface SiteRankings {
+  site: string;
+  keywords: RankingKeyword[];
+}
+
+export interface Ranking {
+  keyword: string;
+  position: number | null;
+  volume: number | null;
+  difficulty: number | null;
+}
+
+// Best (lowest) position per normalized keyword
+export function rankingsBySite(rankings: RankingKeyword[]): Map<string, Ranking> {
+  const byKeyword = new Map<string, Ranking>();
+  for (const row of rankings) {
+    const keyword = normalizeKeyword(row.keyword);
+    if (!keyword) {
+      continue;
+    }
+    const position = row.rank_position ?? null;
+    const existing = byKeyword.get(keyword);
+    if (!existing || (position !== null && (existing.position === null || position < existing.position))) {
+      byKeyword.set(keyword, {
+        keyword,
+        position,
+        volume: row.volume ?? existing?.volume ?? null,
+        difficulty: row.difficulty ?? existing?.difficulty ?? null,
+      });
+    }
+  }
+  return byKeyword;
+}
+
+// Search volume discounted by difficulty: what ranking for the keyword is
+// worth relative to the effort. Unknown difficulty counts as 50.
+export function opportunityScore(volume: number | null, difficulty: number | null): number {
+  return Math.round((volume ?? 0) * (100 - (difficulty ?? 50)) / 100);
+}
+
+function compareRows(sortBy: GapSortKey): (a: KeywordGapRow, b: KeywordGapRow) => number {
+  switch (sortBy) {
+    case 'volume':
+      return (a, b) => (b.volume ?? -1) - (a.volume ?? -1) || a.keyword.localeCompare(b.keyword);
+    case 'difficulty':
+      return (a, b) => (a.difficulty ?? Infinity) - (b.difficulty ?? Infinity) || a.keyword.localeCompare(b.keyword);
+    case 'opportunity':
+      return (a, b) => b.opportunity - a.opportunity || a.keyword.localeCompare(b.keyword);
+  }
+}
+
+export function computeKeywordGap(
+  primary: SiteRankings,
+  competitors: SiteRankings[],
+  options: { sortBy?: GapSortKey; limit?: number } = {}
+): KeywordGapResult {
+  const primaryRankings = rankingsBySite(primary.keywords);
+  const competitorRankings = competitors.map(competitor => ({
+    site: competitor.site,
+    rankings: rankingsBySite(competitor.keywords),
+  }));
+
+  const allKeywords = new Set(primaryRankings.keys());
+  for (const { rankings } of competitorRankings) {
+    for (const keyword of rankings.keys()) {
+      allKeywords.add(keyword);
+    }
+  }
+
+  const missing: KeywordGapRow[] = [];
+  const weaker: KeywordGapRow[] = [];
+  const unique: KeywordGapRow[] = [];
+
+  for (const keyword of allKeywords) {
+    const own = primaryRankings.get(keyword);
+    const positions: Record<string, number | null> = {};
+    let best: { site: string; ranking: Ranking } | undefined;
+    let volume = own?.volume ?? null;
+    let difficulty = own?.difficulty ?? null;
+
+    for (const { site, rankings } of competitorRankings) {
+      const ranking = rankings.get(keyword);
+      positions[site] = ranking?.position ?? null;
+      if (!ranking) {
+        continue;
+      }
+      volume ??= ranking.volume;
+      difficulty ??= ranking.difficulty;
+      if (!best || (ranking.position ?? Infinity) < (best.ranking.position ?? Infinity)) {
+        best = { site, ranking };
+      }
+    }
+
+    const row: KeywordGapRow = {
+      keyword,
+      volume,
+      difficulty,
+      opportunity: opportunityScore(volume, difficulty),
+      primary_position: own?.position ?? null,
+      best_competitor: best?.site ?? null,
+      best_competitor_position: best?.ranking.position ?? null,
+      competitor_positions: positions,
+    };
+
+    if (!own) {
+      missing.push(row);
+    } else if (!best) {
+      unique.push(row);
+    } else if ((best.ranking.position ?? Infinity) < (own.position ?? Infinity)) {
+      weaker.push(row);
+    }
+  }
+
+  const compare = compareRows(options.sortBy ?? 'opportunity');
+  const top = (rows: KeywordGapRow[]) => rows.sort(compare).slice(0, options.limit ?? rows.length);
+
+  return {
+    site: primary.site,
+    competitors: competitors.map(competitor => competitor.site),
+    summary: {
+      primary_keywords: primaryRankings.size,
+      missing: missing.length,
+      weaker: weaker.length,
+      unique: unique.length,
+    },
+    missing: top(missing),
+    weaker: top(weaker),
+    unique: top(unique),
+  };
+}
+
+const GAP_SECTIONS = ['missing', 'weaker', 'unique'] as const;
+
+// One table over all sections, with a column per competitor position
+export function keywordGapTable(result: KeywordGapResult, format: 'csv' | 'markdown'): string {
+  type Row = KeywordGapRow & { section: string };
+  const columns: TableColumn<Row>[] = [
+    { header: 'section', value: row => row.section },
+    { header: 'keyword', value: row => row.keyword },
+    { header: 'volume', value: row => row.volume },
+    { header: 'difficulty', value: row => row.difficulty },
+    { header: 'opportunity', value: row => row.opportunity },
+    { header: result.site, value: row => row.primary_position },
+    ...result.competitors.map((competitor): TableColumn<Row> => ({
+      header: competitor,
+      value: row => row.competitor_positions[competitor],
+    })),
+  ];
+  const rows = GAP_SECTIONS.flatMap(section => result[section].map(row => ({ ...row, section })));
+  return format === 'csv' ? toCsv(columns, rows) : toMarkdownTable(columns, rows);
+}
@@ -0,0 +1,108 @@
+import { normalizeKeyword } from './keywords.js';
+import { BulkKeywordRow, KeywordOpportunityRow, PageOpportunity, RankingKeyword } from './moz-types.js';
+
+// Keyword opportunities over a site's ranking keywords and their metrics, both
+// already fetched. Each keyword's monthly organic clicks are estimated from its
+// volume, Moz's organic CTR (the share of clicks that go to organic results)
+// and a click-through curve by position; the uplift is the clicks gained if the
+// ranking page moved up to position 3.
+
+// Positions 4-20 are close enough to the top 3 to be worth optimizing for
+export const STRIKING_DISTANCE = { from: 4, to: 20 } as const;
+const TARGET_POSITION = 3;
+
+// Approximate share of organic clicks by position, from public CTR studies
+const POSITION_CTR = [0.28, 0.15, 0.11, 0.08, 0.07, 0.05, 0.04, 0.03, 0.03, 0.025];
+const SECOND_PAGE_CTR = 0.01;
+const DEEP_CTR = 0.002;
+
+// Keywords listed per page
+const TOP_PAGE_KEYWORDS = 5;
+
+export function positionCtr(position: number | null): number {
+  if (position === null || position < 1) {
+    return 0;
+  }
+  if (position <= POSITION_CTR.length) {
+    return POSITION_CTR[Math.floor(position) - 1];
+  }
+  return position <= 20 ? SECOND_PAGE_CTR : DEEP_CTR;
+}
+
+export function isStrikingDistance(position: number | null): boolean {
+  return position !== null && position >= STRIKING_DISTANCE.from && position <= STRIKING_DISTANCE.to;
+}
+
+function estimatedClicks(volume: number, organicCtr: number | null, position: number | null): number {
+  // Without Moz's organic CTR all clicks are assumed to be organic; it may
+  // come as a fraction or as a percentage
+  const organicShare = organicCtr === null ? 1 : organicCtr > 1 ? organicCtr / 100 : organicCtr;
+  return Math.round(volume * organicShare * positionCtr(position));
+}
+
+// One row per keyword at its best position, ranked by traffic uplift. Metrics
+// from the lookup win; when it failed, the ranking data's volume and
+// difficulty are used and the row carries the error.
+export function scoreOpportunities(rankings: RankingKeyword[], metrics: BulkKeywordRow[]): KeywordOpportunityRow[] {
+  const best = new Map<string, RankingKeyword>();
+  for (const row of rankings) {
+    const keyword = normalizeKeyword(row.keyword);
+    const existing = best.get(keyword);
+    if (keyword && (!existing || (row.rank_position ?? Infinity) < (existing.rank_position ?? Infinity))) {
+      best.set(keyword, row);
+    }
+  }
+  const metricsByKeyword = new Map(metrics.map(row => [normalizeKeyword(row.keyword), row]));
+
+  const rows = [...best].map(([keyword, ranking]): KeywordOpportunityRow => {
+    const lookup = metricsByKeyword.get(keyword);
+    const position = ranking.rank_position ?? null;
+    const volume = lookup?.volume ?? ranking.volume ?? null;
+    const organicCtr = lookup?.organic_ctr ?? null;
+    const clicks = estimatedClicks(volume ?? 0, organicCtr, position);
+    const clicksTop = estimatedClicks(volume ?? 0, organicCtr, position !== null && position <= TARGET_POSITION ? position : TARGET_POSITION);
+
+    return {
+      keyword,
+      position,
+      ranking_page: ranking.ranking_page ?? null,
+      volume,
+      difficulty: lookup?.difficulty ?? ranking.difficulty ?? null,
+      organic_ctr: organicCtr,
+      priority: lookup?.priority ?? null,
+      striking_distance: isStrikingDistance(position),
+      estimated_clicks: clicks,
+      estimated_clicks_top3: clicksTop,
+      traffic_uplift: clicksTop - clicks,
+      ...(lookup?.error && { error: lookup.error }),
+    };
+  });
+
+  return rows.sort((a, b) =>
+    b.traffic_uplift - a.traffic_uplift ||
+    (b.volume ?? 0) - (a.volume ?? 0) ||
+    a.keyword.localeCompare(b.keyword)
+  );
+}
+
+// Ranking pages by the uplift of their keywords, to decide which pages to
+// optimize next
+export function pageOpportunities(rows: KeywordOpportunityRow[]): PageOpportunity[] {
+  const pages = new Map<string, KeywordOpportunityRow[]>();
+  for (const row of rows) {
+    if (row.ranking_page) {
+      pages.set(row.ranking_page, [...(pages.get(row.ranking_page) ?? []), row]);
+    }
+  }
+  return [...pages]
+    .map(([page, keywords]): PageOpportunity => ({
+      ranking_page: page,
+      keywords: keywords.length,
+      striking_distance_keywords: keywords.filter(row => row.striking_distance).length,
+      traffic_uplift: keywords.reduce((sum, row) => sum + row.traffic_uplift, 0),
+      // rows arrive sorted by uplift
+      top_keywords: keywords.slice(0, TOP_PAGE_KEYWORDS).map(row => row.keyword),
+    }))
+    .filter(page => page.traffic_uplift > 0)
+    .sort((a, b) => b.traffic_uplift - a.traffic_uplift || a.ranking_page.localeCompare(b.ranking_page));
+}
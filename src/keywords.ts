@@ -0,0 +1,28 @@
+// Keyword list helpers shared by the bulk keyword tools
+
+export function normalizeKeyword(keyword: string): string {
+  return keyword.trim().replace(/^["']|["']$/g, '').replace(/\s+/g, ' ').toLowerCase();
+}
+
+// Accepts an array of keywords or a newline/CSV block. For CSV rows only the
+// first column is used, and a leading "keyword" header is skipped. Returns the
+// normalized keywords without duplicates, in first-seen order.
+export function parseKeywordList(input: string | readonly string[]): string[] {
+  const raw = typeof input === 'string'
+    ? input.split(/\r?\n/).map(line => line.split(',')[0])
+    : input;
+
+  const seen = new Set<string>();
+  for (const entry of raw) {
+    const keyword = normalizeKeyword(entry);
+    if (keyword && !seen.has(keyword)) {
+      seen.add(keyword);
+    }
+  }
+
+  const keywords = [...seen];
+  if (typeof input === 'string' && keywords[0] === 'keyword') {
+    keywords.shift();
+  }
+  return keywords;
+}
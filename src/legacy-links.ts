@@ -0,0 +1,50 @@
+// The legacy Links API serves the link data of the JSON-RPC API as one REST
+// endpoint per method, and is the only API that accepts V2 signed requests
+// (AccessID, Expires and Signature query parameters). Keyword, site ranking and
+// quota data have no legacy counterpart.
+
+export const LEGACY_LINKS_BASE_URL = 'https://lsapi.seomoz.com/v2';
+
+// A legacy Links API call: the endpoint path below the base URL and its body
+export interface LegacyCall {
+  path: string;
+  body: Record<string, unknown>;
+}
+
+interface LegacyEndpoint {
+  path: string;
+  // JSON-RPC data fields the legacy endpoint names differently
+  rename?: Record<string, string>;
+  // JSON-RPC data fields the legacy endpoint does not take
+  drop?: string[];
+}
+
+const LEGACY_ENDPOINTS: Record<string, LegacyEndpoint> = {
+  'data.url_metrics': { path: 'url_metrics', drop: ['scope'] },
+  'data.links': { path: 'links', rename: { scope: 'target_scope' } },
+  'data.anchor_text': { path: 'anchor_text' },
+  'data.top_pages': { path: 'top_pages' },
+  'data.linking_domains': { path: 'linking_root_domains', rename: { scope: 'target_scope' } },
+  'data.global.top.pages.list': { path: 'global_top_pages' },
+  'data.global.top.domains.list': { path: 'global_top_root_domains' },
+  'data.usage': { path: 'usage_data' },
+};
+
+// Free call the startup self-test uses to check V2 credentials
+export const LEGACY_AUTH_PROBE: LegacyCall = { path: 'index_metadata', body: {} };
+
+// The legacy call serving a JSON-RPC method, or undefined when there is none
+export function legacyLinksCall(method: string, params: Record<string, unknown>): LegacyCall | undefined {
+  if (!Object.hasOwn(LEGACY_ENDPOINTS, method)) {
+    return undefined;
+  }
+  const endpoint = LEGACY_ENDPOINTS[method];
+  const data = (params.data ?? {}) as Record<string, unknown>;
+  const body: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(data)) {
+    if (!endpoint.drop?.includes(key)) {
+      body[endpoint.rename?.[key] ?? key] = value;
+    }
+  }
+  return { path: endpoint.path, body };
+}
@@ -0,0 +1,95 @@
+import { LinkIntersectRow, LinkingDomain } from './moz-types.js';
+
+// Link intersect over linking domain lists that were already fetched: root
+// domains that link to several competitors but not to the primary site are the
+// likeliest outreach prospects.
+
+export const LINK_TYPES = ['all', 'follow', 'nofollow'] as const;
+export type LinkType = typeof LINK_TYPES[number];
+
+export interface SiteLinkingDomains {
+  site: string;
+  domains: LinkingDomain[];
+}
+
+export interface IntersectFilters {
+  // Competitors a domain has to link to; defaults to 2
+  minCompetitors?: number;
+  minDomainAuthority?: number;
+  maxSpamScore?: number;
+  excludeDirectories?: boolean;
+  excludeDomains?: string[];
+}
+
+// Web directories and link lists: they link to everyone, so they make poor
+// outreach targets
+const KNOWN_DIRECTORIES = new Set([
+  'dmoz.org', 'curlie.org', 'yelp.com', 'yellowpages.com', 'manta.com', 'hotfrog.com', 'foursquare.com',
+  'bbb.org', 'chamberofcommerce.com', 'cylex.us.com', 'brownbook.net', 'superpages.com', 'merchantcircle.com',
+  'citysearch.com', 'ezlocal.com', 'spoke.com', 'crunchbase.com', 'zoominfo.com', 'ask.fm', 'jasminedirectory.com',
+  'botw.org', 'aboutus.com', 'site-analyzer.com', 'siteprice.org', 'websiteoutlook.com', 'statshow.com',
+]);
+const DIRECTORY_PATTERN = /directory|catalog|linklist|weblinks|bizlist|siteworth|webstats|(^|[.-])(dir|links?|listings?)([.-]|$)/;
+
+export function isDirectoryDomain(domain: string): boolean {
+  return KNOWN_DIRECTORIES.has(domain) || DIRECTORY_PATTERN.test(domain);
+}
+
+export function normalizeDomain(domain: string): string {
+  return domain.trim().toLowerCase().replace(/^https?:\/\//, '').replace(/^www\./, '').replace(/\/.*$/, '');
+}
+
+// Domains that link to at least `minCompetitors` competitors and not to the
+// primary site, with the competitors each one links to. Authority and spam
+// score come from the linking domain lists and may be refined afterwards.
+export function intersectLinkingDomains(
+  primary: SiteLinkingDomains,
+  competitors: SiteLinkingDomains[],
+  minCompetitors = 2
+): LinkIntersectRow[] {
+  const linkedToPrimary = new Set(primary.domains.map(domain => normalizeDomain(domain.root_domain)));
+  const rows = new Map<string, LinkIntersectRow>();
+
+  for (const competitor of competitors) {
+    for (const domain of competitor.domains) {
+      const rootDomain = normalizeDomain(domain.root_domain);
+      if (linkedToPrimary.has(rootDomain)) {
+        continue;
+      }
+      const row = rows.get(rootDomain) ?? {
+        root_domain: rootDomain,
+        domain_authority: domain.domain_authority ?? null,
+        spam_score: domain.spam_score ?? null,
+        competitor_count: 0,
+        competitors: [],
+      };
+      if (!row.competitors.includes(competitor.site)) {
+        row.competitors.push(competitor.site);
+        row.competitor_count++;
+      }
+      rows.set(rootDomain, row);
+    }
+  }
+
+  return [...rows.values()].filter(row => row.competitor_count >= minCompetitors);
+}
+
+export function filterProspects(rows: LinkIntersectRow[], filters: IntersectFilters): LinkIntersectRow[] {
+  const excluded = new Set((filters.excludeDomains ?? []).map(normalizeDomain));
+  return rows.filter(row =>
+    !excluded.has(row.root_domain) &&
+    !(filters.excludeDirectories !== false && isDirectoryDomain(row.root_domain)) &&
+    !(filters.minDomainAuthority !== undefined && (row.domain_authority ?? 0) < filters.minDomainAuthority) &&
+    !(filters.maxSpamScore !== undefined && (row.spam_score ?? 0) > filters.maxSpamScore)
+  );
+}
+
+// Highest authority first, then lowest spam score, then most competitors
+export function rankProspects(rows: LinkIntersectRow[]): LinkIntersectRow[] {
+  return [...rows].sort((a, b) =>
+    (b.domain_authority ?? -1) - (a.domain_authority ?? -1) ||
+    (a.spam_score ?? Infinity) - (b.spam_score ?? Infinity) ||
+    b.competitor_count - a.competitor_count ||
+    a.root_domain.localeCompare(b.root_domain)
+  );
+}
@@ -0,0 +1,394 @@
+#!/usr/bin/env node
+import { promises as fs } from 'fs';
+import http, { IncomingMessage, ServerResponse } from 'http';
+import path from 'path';
+import { pathToFileURL } from 'url';
+import axios from 'axios';
+import { signV2 } from './auth.js';
+import { stableStringify } from './cache.js';
+import { DEFAULT_BASE_URL, JsonRpcRequest } from './moz-client.js';
+import { sleep } from './rate-limiter.js';
+
+// Local stand-in for the Moz JSON-RPC API. Replays recorded fixtures, one file
+// per method in the fixtures directory:
+//
+//   { "method": "data.site.metrics.fetch",
+//     "responses": [{ "params": { ... }, "result": { ... } }] }
+//
+// A request gets the response recorded for exactly its params, or the first
+// response of its method otherwise. Errors and latency can be injected, and in
+// record mode requests are forwarded to the real API and saved as fixtures.
+// Batch arrays are answered with an array; an injected HTTP-level error fails
+// the whole batch, as it would for the real API.
+//
+// Legacy Links API calls (POST /v2/<endpoint>, made with V2 auth) are replayed
+// the same way from legacy.<endpoint>.json, with the request body as params.
+// With credentials set, JSON-RPC requests need the API token and legacy calls a
+// valid V2 signature; anything else gets a 401.
+//
+//   tsx src/mock-server.ts --port 4010 --latency 200 --error-rate 0.1 --error rate_limit
+//   tsx src/mock-server.ts --record --fixtures fixtures
+//   tsx src/mock-server.ts --api-token test-token --access-id id --secret-key secret
+
+export const INJECTED_ERRORS = ['rate_limit', 'auth', 'quota', 'server', 'invalid_params', 'internal'] as const;
+export type InjectedError = typeof INJECTED_ERRORS[number];
+
+export interface MockServerOptions {
+  port: number;
+  host: string;
+  fixturesDir: string;
+  // Added to every response
+  latencyMs?: number;
+  // Share of requests, 0 to 1, answered with a random one of `errors`
+  errorRate?: number;
+  errors?: InjectedError[];
+  // Methods that always fail with the given error
+  failMethods?: Record<string, InjectedError>;
+  // Forward requests to this endpoint and save what it returns
+  recordUpstream?: string;
+  // Credentials requests must carry; when omitted any request is accepted
+  credentials?: MockCredentials;
+  // Answer batch arrays with an Invalid Request error, like an endpoint
+  // without batch support
+  rejectBatches?: boolean;
+  // Called with the body of every JSON-RPC POST, e.g. to count calls in tests
+  onRequest?: (body: JsonRpcRequest | JsonRpcRequest[]) => void;
+}
+
+export interface MockCredentials {
+  apiToken?: string;
+  accessId?: string;
+  secretKey?: string;
+}
+
+export interface RunningMockServer {
+  // JSON-RPC endpoint
+  url: string;
+  // Legacy Links API base URL
+  legacyUrl: string;
+  close(): Promise<void>;
+}
+
+interface MockResponse {
+  status: number;
+  headers?: Record<string, string>;
+  body: unknown;
+}
+
+interface FixtureResponse {
+  params: unknown;
+  result: unknown;
+}
+
+interface FixtureFile {
+  method: string;
+  recorded_at?: string;
+  responses: FixtureResponse[];
+}
+
+// Keys whose values are credentials or account identifiers and must not end up
+// in a committed fixture
+const SENSITIVE_KEY = /^(api_?token|token|secret(_?key)?|signature|access_?id|email|account_?id|user_?id|owner)$/i;
+
+export function sanitize(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(sanitize);
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value as Record<string, unknown>).map(([key, v]) => [
+      key,
+      SENSITIVE_KEY.test(key) && v !== null ? 'REDACTED' : sanitize(v),
+    ]));
+  }
+  return value;
+}
+
+// Method names double as fixture file names, so anything that could leave the
+// fixtures directory (slashes, "..") is refused
+const METHOD_NAME = /^[\w.]+$/;
+
+function isMethodName(method: unknown): method is string {
+  return typeof method === 'string' && METHOD_NAME.test(method) && !method.includes('..');
+}
+
+const LEGACY_PATH = /^\/v2\/([a-z_]+)$/;
+
+// V2 auth passes when the request is signed with the configured Access ID and
+// Secret Key and the signature has not expired
+function validV2Signature(query: URLSearchParams, credentials: MockCredentials): boolean {
+  const { accessId, secretKey } = credentials;
+  const expires = Number(query.get('Expires'));
+  if (!accessId || !secretKey || query.get('AccessID') !== accessId) {
+    return false;
+  }
+  return Number.isInteger(expires)
+    && expires > Date.now() / 1000
+    && query.get('Signature') === signV2(accessId, secretKey, expires);
+}
+
+export async function startMockServer(options: MockServerOptions): Promise<RunningMockServer> {
+  const fixtureFile = (method: string) => {
+    if (!isMethodName(method)) {
+      throw new Error(`Invalid method name: ${method}`);
+    }
+    return path.join(options.fixturesDir, `${method}.json`);
+  };
+
+  const loadFixture = async (method: string): Promise<FixtureFile | undefined> => {
+    try {
+      return JSON.parse(await fs.readFile(fixtureFile(method), 'utf-8')) as FixtureFile;
+    } catch {
+      return undefined;
+    }
+  };
+
+  const replay = async (request: JsonRpcRequest): Promise<unknown> => {
+    const fixture = await loadFixture(request.method);
+    if (!fixture || fixture.responses.length === 0) {
+      return rpcError(request.id, -32601, `Method not found: no fixture for ${request.method}`);
+    }
+    const key = stableStringify(request.params);
+    const match = fixture.responses.find(response => stableStringify(response.params) === key)
+      ?? fixture.responses[0];
+    return { jsonrpc: '2.0', id: request.id, result: match.result };
+  };
+
+  const replayLegacy = async (endpoint: string, body: unknown): Promise<MockResponse> => {
+    const fixture = await loadFixture(`legacy.${endpoint}`);
+    if (!fixture || fixture.responses.length === 0) {
+      return { status: 404, body: { status: '404', name: 'Not Found', message: `No fixture for ${endpoint}` } };
+    }
+    const key = stableStringify(body);
+    const match = fixture.responses.find(response => stableStringify(response.params) === key)
+      ?? fixture.responses[0];
+    return { status: 200, body: match.result };
+  };
+
+  const record = async (
+    req: IncomingMessage,
+    request: JsonRpcRequest,
+    upstream: string
+  ): Promise<MockResponse> => {
+    const token = req.headers['x-moz-token'];
+    const query = new URL(req.url ?? '/', 'http://localhost').searchParams;
+    const response = await axios.post(upstream, request, {
+      headers: { 'Content-Type': 'application/json', ...(typeof token === 'string' && { 'x-moz-token': token }) },
+      params: Object.fromEntries(query),
+      validateStatus: () => true,
+    });
+
+    const body = response.data as { result?: unknown; error?: unknown };
+    if (response.status === 200 && body.result !== undefined) {
+      const params = sanitize(request.params);
+      const fixture = await loadFixture(request.method) ?? { method: request.method, responses: [] };
+      const key = stableStringify(params);
+      fixture.responses = fixture.responses.filter(entry => stableStringify(entry.params) !== key);
+      fixture.responses.push({ params, result: sanitize(body.result) });
+      fixture.recorded_at = new Date().toISOString();
+      await fs.mkdir(options.fixturesDir, { recursive: true });
+      await fs.writeFile(fixtureFile(request.method), `${JSON.stringify(fixture, null, 2)}\n`);
+      console.error(`Recorded ${request.method}`);
+    }
+    return { status: response.status, body };
+  };
+
+  const injectedError = (method: string): InjectedError | undefined => {
+    if (options.failMethods && Object.hasOwn(options.failMethods, method)) {
+      return options.failMethods[method];
+    }
+    const errors = options.errors?.length ? options.errors : INJECTED_ERRORS;
+    if (options.errorRate && Math.random() < options.errorRate) {
+      return errors[Math.floor(Math.random() * errors.length)];
+    }
+    return undefined;
+  };
+
+  const respond = async (req: IncomingMessage, request: JsonRpcRequest): Promise<MockResponse> => {
+    if (!isMethodName(request.method)) {
+      return { status: 200, body: rpcError(request.id ?? null, -32600, 'Invalid Request: bad method name') };
+    }
+    if (options.credentials && (!options.credentials.apiToken || req.headers['x-moz-token'] !== options.credentials.apiToken)) {
+      return injectedResponse(request.id, 'auth');
+    }
+    const error = injectedError(request.method);
+    if (error) {
+      return injectedResponse(request.id, error);
+    }
+    if (options.recordUpstream) {
+      return record(req, request, options.recordUpstream);
+    }
+    return { status: 200, body: await replay(request) };
+  };
+
+  const httpServer = http.createServer(async (req, res) => {
+    try {
+      if (req.method !== 'POST') {
+        sendJson(res, 405, { error: 'Method not allowed' });
+        return;
+      }
+      const url = new URL(req.url ?? '/', 'http://localhost');
+      const legacy = LEGACY_PATH.exec(url.pathname);
+      const body = JSON.parse(await readBody(req)) as JsonRpcRequest | JsonRpcRequest[];
+      if (!legacy) {
+        options.onRequest?.(body);
+      }
+      if (options.latencyMs) {
+        await sleep(options.latencyMs);
+      }
+
+      if (legacy) {
+        if (options.credentials && !validV2Signature(url.searchParams, options.credentials)) {
+          sendJson(res, 401, { status: '401', name: 'Unauthorized', message: 'Invalid or expired signature' });
+          return;
+        }
+        sendResponse(res, await replayLegacy(legacy[1], body));
+        return;
+      }
+
+      if (!Array.isArray(body)) {
+        sendResponse(res, await respond(req, body));
+        return;
+      }
+      if (body.length === 0 || options.rejectBatches) {
+        sendJson(res, 200, rpcError(null, -32600, `Invalid Request: ${body.length === 0 ? 'empty batch' : 'batches are not supported'}`));
+        return;
+      }
+      const responses: MockResponse[] = [];
+      for (const request of body) {
+        responses.push(await respond(req, request));
+      }
+      const failed = responses.find(response => response.status !== 200);
+      if (failed) {
+        sendResponse(res, failed);
+        return;
+      }
+      sendJson(res, 200, responses.map(response => response.body));
+    } catch (error) {
+      console.error('Mock request failed:', error);
+      if (!res.headersSent) {
+        sendJson(res, error instanceof SyntaxError ? 400 : 500, rpcError(null, -32700, 'Parse error'));
+      }
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, options.host, () => resolve());
+  });
+  const address = httpServer.address();
+  const port = address && typeof address === 'object' ? address.port : options.port;
+
+  return {
+    url: `http://${options.host}:${port}/jsonrpc`,
+    legacyUrl: `http://${options.host}:${port}/v2`,
+    close: () => new Promise<void>((resolve) => httpServer.close(() => resolve())),
+  };
+}
+
+// Each injected error looks like the corresponding failure of the real API, so
+// the client classifies it the same way
+function injectedResponse(id: string, error: InjectedError): MockResponse {
+  switch (error) {
+    case 'rate_limit':
+      return { status: 429, headers: { 'Retry-After': '1' }, body: rpcError(id, -32000, 'Too many requests') };
+    case 'auth':
+      return { status: 401, body: rpcError(id, -32000, 'Unauthorized: invalid token') };
+    case 'quota':
+      return { status: 200, body: rpcError(id, -32000, 'Quota exhausted: insufficient rows') };
+    case 'server':
+      return { status: 503, body: rpcError(id, -32000, 'Service unavailable') };
+    case 'invalid_params':
+      return { status: 200, body: rpcError(id, -32602, 'Invalid params') };
+    case 'internal':
+      return { status: 200, body: rpcError(id, -32603, 'Internal error') };
+  }
+}
+
+function rpcError(id: string | null, code: number, message: string) {
+  return { jsonrpc: '2.0', id, error: { code, message } };
+}
+
+async function readBody(req: IncomingMessage): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks).toString('utf-8');
+}
+
+function sendResponse(res: ServerResponse, response: MockResponse): void {
+  for (const [name, value] of Object.entries(response.headers ?? {})) {
+    res.setHeader(name, value);
+  }
+  sendJson(res, response.status, response.body);
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+function cliOptions(args: string[]): Map<string, string> {
+  const options = new Map<string, string>();
+  for (let i = 0; i < args.length; i++) {
+    const match = /^--([^=]+)(?:=(.*))?$/.exec(args[i]);
+    if (!match) {
+      continue;
+    }
+    if (match[2] !== undefined) {
+      options.set(match[1], match[2]);
+    } else if (args[i + 1] !== undefined && !args[i + 1].startsWith('--')) {
+      options.set(match[1], args[++i]);
+    } else {
+      options.set(match[1], 'true');
+    }
+  }
+  return options;
+}
+
+function parseInjectedError(value: string): InjectedError {
+  if (!(INJECTED_ERRORS as readonly string[]).includes(value)) {
+    throw new Error(`Unknown error kind "${value}" (expected ${INJECTED_ERRORS.join(', ')})`);
+  }
+  return value as InjectedError;
+}
+
+async function main() {
+  const cli = cliOptions(process.argv.slice(2));
+  // --fail takes a comma-separated list of method=error pairs
+  const failMethods: Record<string, InjectedError> = {};
+  for (const pair of (cli.get('fail') ?? '').split(',').filter(Boolean)) {
+    const [method, error] = pair.split('=');
+    failMethods[method] = parseInjectedError(error);
+  }
+  const recording = cli.has('record');
+
+  const server = await startMockServer({
+    port: Number(cli.get('port') ?? 4010),
+    host: cli.get('host') ?? '127.0.0.1',
+    fixturesDir: path.resolve(cli.get('fixtures') ?? 'fixtures'),
+    latencyMs: Number(cli.get('latency') ?? 0),
+    errorRate: Number(cli.get('error-rate') ?? 0),
+    errors: (cli.get('error') ?? '').split(',').filter(Boolean).map(parseInjectedError),
+    failMethods,
+    recordUpstream: recording ? (cli.get('upstream') ?? DEFAULT_BASE_URL) : undefined,
+    credentials: cli.has('api-token') || cli.has('access-id')
+      ? { apiToken: cli.get('api-token'), accessId: cli.get('access-id'), secretKey: cli.get('secret-key') }
+      : undefined,
+    rejectBatches: cli.has('no-batch'),
+  });
+  console.error(`Mock Moz API ${recording ? 'recording' : 'replaying'} at ${server.url} (legacy Links API at ${server.legacyUrl})`);
+
+  const shutdown = () => {
+    server.close().finally(() => process.exit(0));
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+if (process.argv[1] && import.meta.url === pathToFileURL(path.resolve(process.argv[1])).href) {
+  main().catch((error) => {
+    console.error('Mock server failed:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
+}
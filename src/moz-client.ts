@@ -1,92 +1,300 @@
-import axios, { AxiosInstance } from 'axios';
+import axios, { AxiosError, AxiosInstance } from 'axios';
 import { v4 as uuidv4 } from 'uuid';
-import crypto from 'crypto';
+import { z } from 'zod';
+import { AuthStrategy, MozCredentials, authStrategies } from './auth.js';
+import { rowsInResult } from './budget.js';
+import { ResponseCache, stableStringify } from './cache.js';
+import { currentCallContext, runInCallContext } from './call-context.js';
+import { clusterKeywords } from './clustering.js';
+import { discoveryCandidates, scoreCompetitors } from './competitor-discovery.js';
+import { mapWithConcurrency } from './concurrency.js';
+import {
+  MozApiError,
+  MozAuthError,
+  MozInvalidParamsError,
+  MozQuotaExceededError,
+  MozRateLimitError,
+  MozResponseError,
+  MozUpstreamError,
+} from './errors.js';
+import { DEFAULT_INSIGHT_RULES, InsightRule, evaluateInsights } from './insights.js';
+import { GapSortKey, SiteRankings, computeKeywordGap } from './keyword-gap.js';
+import { isStrikingDistance, pageOpportunities, scoreOpportunities } from './keyword-opportunities.js';
+import { normalizeKeyword, parseKeywordList } from './keywords.js';
+import { LEGACY_AUTH_PROBE, LEGACY_LINKS_BASE_URL, legacyLinksCall } from './legacy-links.js';
+import {
+  IntersectFilters,
+  LinkType,
+  SiteLinkingDomains,
+  filterProspects,
+  intersectLinkingDomains,
+  normalizeDomain,
+  rankProspects,
+} from './link-intersect.js';
+import { Pager, collectPages, decodeOffsetToken, nextOffsetToken } from './pagination.js';
+import { TokenBucket, sleep } from './rate-limiter.js';
+import { BatchOptions, RequestBatcher } from './request-batcher.js';
+import {
+  AnchorText,
+  AnchorTextResult,
+  AnchorTextSchema,
+  BrandAuthorityResult,
+  BulkKeywordRow,
+  ClusteredKeyword,
+  CompetitorDiscoveryResult,
+  DEVICES,
+  ENGINES,
+  Engine,
+  GlobalTopDomainsResult,
+  GlobalTopDomainsSchema,
+  GlobalTopPagesResult,
+  GlobalTopPagesSchema,
+  BrandAuthoritySchema,
+  CompetitorAnalysis,
+  KeywordClustersResult,
+  KeywordDeviceComparison,
+  KeywordGapResult,
+  KeywordOpportunitiesResult,
+  LinkIntersectResult,
+  LinkIntersectRow,
+  KeywordIntentResult,
+  KeywordMetricField,
+  KeywordIntentSchema,
+  KeywordMetricsResult,
+  KeywordMetricsSchema,
+  KeywordSuggestion,
+  KeywordSuggestionsResult,
+  KeywordSuggestionsSchema,
+  Link,
+  LinkingDomain,
+  LinkingDomainsResult,
+  LinkingDomainsSchema,
+  LinksResult,
+  LinksSchema,
+  QuotaResult,
+  QuotaSchema,
+  RankingKeyword,
+  RankingKeywordsCountResult,
+  RankingKeywordsCountSchema,
+  RankingKeywordsResult,
+  RankingKeywordsSchema,
+  SerpOptions,
+  SiteSnapshot,
+  SiteMetricsMultipleResult,
+  SiteMetricsMultipleSchema,
+  SiteMetricsResult,
+  SiteMetricsSchema,
+  SnapshotData,
+  TopPage,
+  TopPagesResult,
+  TopPagesSchema,
+  UrlMetricsResult,
+  UsageResult,
+  UsageSchema,
+  UrlMetricsSchema,
+} from './moz-types.js';
 
-export interface MozApiToken {
-  apiToken: string;
+// Outcome of trying one auth strategy against Moz
+export interface AuthCheck {
+  mode: AuthStrategy['mode'];
+  ok: boolean;
+  error?: string;
+}
+
+export interface RetryOptions {
+  // Retries after the first attempt; 0 disables retrying
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export interface MozClientOptions {
+  retry?: Partial<RetryOptions>;
+  // Shared limiter; when omitted the client gets its own at requestsPerSecond
+  rateLimiter?: TokenBucket;
+  requestsPerSecond?: number;
+  cache?: ResponseCache;
+  // JSON-RPC endpoint, e.g. a local mock server in development
+  baseUrl?: string;
+  // Legacy Links API that V2-signed requests go to
+  legacyBaseUrl?: string;
+  // Called after every live response from Moz, once it is cached
+  onFetched?: (method: string, params: unknown) => void;
+  // Requests made within windowMs of each other go out as one JSON-RPC batch;
+  // a window of 0 sends every request on its own
+  batch?: Partial<BatchOptions>;
+  // Rules competitor analysis insights are derived from; defaults to DEFAULT_INSIGHT_RULES
+  insightRules?: InsightRule[];
+  // Log retries and failed requests to stderr
+  debug?: boolean;
+}
+
+export const DEFAULT_BASE_URL = 'https://api.moz.com/jsonrpc';
+
+const DEFAULT_RETRY: RetryOptions = {
+  maxRetries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 10000,
+};
+const DEFAULT_REQUESTS_PER_SECOND = 5;
+const DEFAULT_BULK_CONCURRENCY = 5;
+const DEFAULT_COMPETITOR_CONCURRENCY = 3;
+// Ranking keywords fetched per site by the analyses built on them
+const DEFAULT_RANKING_KEYWORDS = 100;
+// Linking domains evaluated by competitor discovery
+const DEFAULT_DISCOVERY_CANDIDATES = 20;
+const DEFAULT_BATCH: BatchOptions = {
+  windowMs: 10,
+  maxSize: 20,
+};
+
+// Linking domains fetched to fill the discovery candidate list; directories
+// and excluded domains are skipped, so more are fetched than evaluated
+export function discoveryLinkingDomainRows(candidates: number): number {
+  return candidates * 3;
 }
 
 export interface JsonRpcRequest {
   jsonrpc: string;
   id: string;
   method: string;
-  params: any;
+  params: Record<string, unknown>;
 }
 
 export interface JsonRpcResponse {
   jsonrpc: string;
   id: string;
-  result?: any;
+  result?: unknown;
   error?: {
     code: number;
     message: string;
-    data?: any;
+    data?: unknown;
   };
 }
 
+// Largest page each family of list endpoints returns per request
+export const MAX_LINKS_PAGE_SIZE = 50;
+export const MAX_V3_PAGE_SIZE = 100;
+// Most targets url_metrics accepts in one request
+export const MAX_URL_METRICS_BATCH = 50;
+
+type PagedMethod =
+  | 'getSiteRankingKeywords'
+  | 'getKeywordSuggestions'
+  | 'getLinks'
+  | 'getAnchorText'
+  | 'getLinkingDomains'
+  | 'getTopPages';
+
+// Options of a paged method, minus the paging fields the pager controls
+type PagerOptions<M extends PagedMethod> = Omit<
+  NonNullable<Parameters<MozApiClient[M]>[1]>,
+  'limit' | 'offset' | 'nextToken'
+>;
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+// Moz refused a JSON-RPC batch as a whole, as an endpoint without batch support
+// does; each of its requests is then sent on its own and batching is turned off
+class BatchRejectedError extends Error {}
+
+// Retry-After is either a number of seconds or an HTTP date
+function parseRetryAfter(value: unknown): number | undefined {
+  if (typeof value !== 'string' || value.trim() === '') {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
 export class MozApiClient {
-  private apiToken: string;
-  private accessId?: string;
-  private secretKey?: string;
-  private baseUrl: string = 'https://api.moz.com/jsonrpc';
+  private auth: AuthStrategy;
+  private authCandidates: AuthStrategy[];
   private axiosInstance: AxiosInstance;
+  private legacyInstance: AxiosInstance;
+  private retry: RetryOptions;
+  private rateLimiter: TokenBucket;
+  private cache?: ResponseCache;
+  private onFetched?: MozClientOptions['onFetched'];
+  private batcher?: RequestBatcher<JsonRpcRequest, JsonRpcResponse>;
+  // Live requests awaiting a response, by method and params, so identical
+  // requests made meanwhile share the response instead of repeating the call
+  private inFlight = new Map<string, Promise<unknown>>();
+  private insightRules: InsightRule[];
+  private debug: boolean;
 
-  constructor(token: MozApiToken) {
-    this.apiToken = token.apiToken;
-    
-    // Check if token is base64 encoded credentials (V2 format)
-    try {
-      const decoded = Buffer.from(this.apiToken, 'base64').toString('utf-8');
-      if (decoded.includes(':')) {
-        const [accessId, secretKey] = decoded.split(':');
-        this.accessId = accessId;
-        this.secretKey = secretKey;
-        console.error('Using Access ID/Secret Key authentication (V2)');
-      } else {
-        console.error('Using API token authentication (V3)');
-      }
-    } catch (error) {
-      console.error('Using API token authentication (V3)');
+  constructor(credentials: MozCredentials, options: MozClientOptions = {}) {
+    this.authCandidates = authStrategies(credentials);
+    this.auth = this.authCandidates[0];
+    this.retry = { ...DEFAULT_RETRY, ...options.retry };
+    this.rateLimiter = options.rateLimiter
+      ?? new TokenBucket(options.requestsPerSecond ?? DEFAULT_REQUESTS_PER_SECOND);
+    this.cache = options.cache;
+    this.onFetched = options.onFetched;
+    this.insightRules = options.insightRules ?? DEFAULT_INSIGHT_RULES;
+    this.debug = options.debug ?? false;
+    const batch = { ...DEFAULT_BATCH, ...options.batch };
+    if (batch.windowMs > 0 && batch.maxSize > 1) {
+      this.batcher = new RequestBatcher(batch, requests => this.sendBatch(requests));
     }
-    
+
     this.axiosInstance = axios.create({
-      baseURL: this.baseUrl,
+      baseURL: options.baseUrl ?? DEFAULT_BASE_URL,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+    this.legacyInstance = axios.create({
+      baseURL: options.legacyBaseUrl ?? LEGACY_LINKS_BASE_URL,
       headers: {
         'Content-Type': 'application/json',
       },
     });
   }
 
-  private createAuthSignature(timestamp: number): string {
-    if (!this.accessId || !this.secretKey) {
-      throw new Error('Access ID and Secret Key required for signature authentication');
+  get authMode(): AuthStrategy['mode'] {
+    return this.auth.mode;
+  }
+
+  // Tries each candidate auth strategy and keeps the first one Moz accepts:
+  // V3 against quota.lookup, V2 against the legacy Links API's index metadata.
+  // Reports every strategy tried.
+  async checkAuth(): Promise<AuthCheck[]> {
+    const checks: AuthCheck[] = [];
+    for (const strategy of this.authCandidates) {
+      try {
+        await this.rateLimiter.acquire();
+        if (strategy.mode === 'v2') {
+          await this.httpPost(this.legacyInstance, LEGACY_AUTH_PROBE.path, LEGACY_AUTH_PROBE.body, strategy);
+        } else {
+          await this.postRequest(this.createRequest('quota.lookup', {
+            data: { path: 'api.limits.data.rows' },
+          }), strategy);
+        }
+        this.auth = strategy;
+        checks.push({ mode: strategy.mode, ok: true });
+        break;
+      } catch (error) {
+        checks.push({ mode: strategy.mode, ok: false, error: errorMessage(error) });
+      }
     }
-    
-    const stringToSign = `${this.accessId}\n${timestamp}`;
-    const signature = crypto
-      .createHmac('sha1', this.secretKey)
-      .update(stringToSign)
-      .digest('base64');
-    
-    return signature;
+    return checks;
   }
 
-  private getAuthHeaders(): Record<string, string> {
-    // For V3 API, try simple token authentication first
-    if (!this.accessId || !this.secretKey) {
-      // Use the raw token for V3 authentication
-      return {
-        'x-moz-token': this.apiToken,
-      };
-    } else {
-      // If we have V2 credentials, try the raw base64 token first for V3
-      return {
-        'x-moz-token': this.apiToken,
-      };
+  // Request-level diagnostics, written only in debug mode
+  private log(...args: unknown[]): void {
+    if (this.debug) {
+      console.error(...args);
     }
   }
 
-  private createRequest(method: string, params: any): JsonRpcRequest {
+  private createRequest(method: string, params: Record<string, unknown>): JsonRpcRequest {
     return {
       jsonrpc: '2.0',
       id: uuidv4(),
@@ -95,160 +303,350 @@ export class MozApiClient {
     };
   }
 
-  private async sendRequest(request: JsonRpcRequest): Promise<any> {
+  private parseResult<T>(method: string, result: unknown, schema: z.ZodType<T, z.ZodTypeDef, unknown>): T {
+    const parsed = schema.safeParse(result);
+    if (!parsed.success) {
+      throw new MozResponseError(
+        method,
+        parsed.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      );
+    }
+    return parsed.data;
+  }
+
+  private async sendRequest<T>(request: JsonRpcRequest, schema: z.ZodType<T, z.ZodTypeDef, unknown>): Promise<T> {
+    const context = currentCallContext();
+
+    if (this.cache && !context?.fresh) {
+      const entry = await this.cache.get(request.method, request.params);
+      if (entry) {
+        context?.calls.push({
+          method: request.method,
+          cached: true,
+          rows: 0,
+          ageSeconds: Math.round((Date.now() - entry.storedAt) / 1000),
+        });
+        return this.parseResult(request.method, entry.value, schema);
+      }
+    }
+
+    const key = `${request.method}:${stableStringify(request.params)}`;
+    const inFlight = this.inFlight.get(key);
+    if (inFlight) {
+      const result = await inFlight;
+      context?.calls.push({ method: request.method, cached: false, shared: true, rows: 0 });
+      return this.parseResult(request.method, result, schema);
+    }
+
+    const fetching = this.fetchWithRetry(request);
+    this.inFlight.set(key, fetching);
+    let result: unknown;
+    try {
+      result = await fetching;
+    } finally {
+      this.inFlight.delete(key);
+    }
+    const parsed = this.parseResult(request.method, result, schema);
+    await this.cache?.set(request.method, request.params, result);
+    context?.calls.push({ method: request.method, cached: false, rows: rowsInResult(request.method, result) });
+    this.onFetched?.(request.method, request.params);
+    return parsed;
+  }
+
+  private async fetchWithRetry(request: JsonRpcRequest): Promise<unknown> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.dispatch(request);
+      } catch (error) {
+        if (!(error instanceof MozApiError) || !error.retryable || attempt >= this.retry.maxRetries) {
+          throw error;
+        }
+        const delay = this.retryDelay(attempt, error);
+        this.log(`Retrying ${request.method} in ${delay}ms (attempt ${attempt + 1} of ${this.retry.maxRetries}): ${error.message}`);
+        await sleep(delay);
+      }
+    }
+  }
+
+  // Sends the request in the next batch, or on its own when batching is off.
+  // V2-signed requests go to the legacy Links API, which has no batching.
+  private async dispatch(request: JsonRpcRequest): Promise<unknown> {
+    if (this.auth.mode === 'v2') {
+      await this.rateLimiter.acquire();
+      return this.postLegacy(request);
+    }
+    if (!this.batcher) {
+      await this.rateLimiter.acquire();
+      return this.postRequest(request);
+    }
+    let response: JsonRpcResponse;
     try {
-      const authHeaders = this.getAuthHeaders();
-      const response = await this.axiosInstance.post('', request, {
-        headers: authHeaders,
-      });
-      const data = response.data as JsonRpcResponse;
-      
-      if (data.error) {
-        throw new Error(`Moz API Error: ${data.error.message} (Code: ${data.error.code})`);
+      response = await this.batcher.enqueue(request);
+    } catch (error) {
+      if (!(error instanceof BatchRejectedError)) {
+        throw error;
+      }
+      // Every request of the batch lands here; the first one turns batching off
+      if (this.batcher) {
+        console.error(`JSON-RPC batch rejected, sending requests one at a time from now on: ${error.message}`);
+        this.batcher = undefined;
+      }
+      await this.rateLimiter.acquire();
+      return this.postRequest(request);
+    }
+    if (response.error) {
+      throw this.classifyRpcError(response.error);
+    }
+    return response.result;
+  }
+
+  // One POST for the whole batch, so a batch counts once against the rate
+  // limit. A lone request is sent as a plain JSON-RPC object.
+  private async sendBatch(requests: JsonRpcRequest[]): Promise<JsonRpcResponse[]> {
+    await this.rateLimiter.acquire();
+    if (requests.length === 1) {
+      return [await this.post(requests[0]) as JsonRpcResponse];
+    }
+    let data: unknown;
+    try {
+      data = await this.post(requests);
+    } catch (error) {
+      // An endpoint without batch support rejects the array as an invalid request
+      if (error instanceof MozInvalidParamsError) {
+        throw new BatchRejectedError(error.message);
       }
-      
-      return data.result;
+      throw error;
+    }
+    if (Array.isArray(data)) {
+      return data as JsonRpcResponse[];
+    }
+    const single = data as Partial<JsonRpcResponse> | undefined;
+    if (single?.error && (single.error.code === -32600 || single.error.code === -32700)) {
+      throw new BatchRejectedError(`Moz API Error: ${single.error.message} (Code: ${single.error.code})`);
+    }
+    throw new MozUpstreamError('Moz API answered a JSON-RPC batch without a batch response', { retryable: true });
+  }
+
+  private async postRequest(request: JsonRpcRequest, auth: AuthStrategy = this.auth): Promise<unknown> {
+    const data = await this.post(request, auth) as JsonRpcResponse;
+    if (data.error) {
+      throw this.classifyRpcError(data.error);
+    }
+    return data.result;
+  }
+
+  // Sends a JSON-RPC request as the equivalent legacy Links API call; the
+  // legacy API answers with the bare result
+  private async postLegacy(request: JsonRpcRequest, auth: AuthStrategy = this.auth): Promise<unknown> {
+    const call = legacyLinksCall(request.method, request.params);
+    if (!call) {
+      throw new MozInvalidParamsError(
+        `${request.method} is not available with V2 authentication, which only reaches the legacy Links API; use a V3 API token`
+      );
+    }
+    return this.httpPost(this.legacyInstance, call.path, call.body, auth);
+  }
+
+  // POSTs a JSON-RPC request or batch and returns the response body
+  private async post(body: JsonRpcRequest | JsonRpcRequest[], auth: AuthStrategy = this.auth): Promise<unknown> {
+    return this.httpPost(this.axiosInstance, '', body, auth);
+  }
+
+  private async httpPost(instance: AxiosInstance, url: string, body: unknown, auth: AuthStrategy): Promise<unknown> {
+    try {
+      const { headers, params } = auth.requestConfig();
+      const response = await instance.post(url, body, { headers, params });
+      return response.data;
     } catch (error) {
       if (axios.isAxiosError(error)) {
-        console.error('API Request failed:', error.response?.status, error.response?.data);
-        throw new Error(`Network Error: ${error.message} - ${error.response?.data ? JSON.stringify(error.response.data) : 'No response data'}`);
+        this.log('API Request failed:', error.response?.status, error.response?.data);
+        throw this.classifyHttpError(error);
       }
       throw error;
     }
   }
 
+  // Exponential backoff with full jitter, unless the server asked for a delay
+  private retryDelay(attempt: number, error: MozApiError): number {
+    if (error instanceof MozRateLimitError && error.retryAfterMs !== undefined) {
+      return error.retryAfterMs;
+    }
+    const ceiling = Math.min(this.retry.maxDelayMs, this.retry.baseDelayMs * 2 ** attempt);
+    return Math.round(Math.random() * ceiling);
+  }
+
+  private classifyHttpError(error: AxiosError): MozApiError {
+    const status = error.response?.status;
+    const body = error.response?.data as Partial<JsonRpcResponse> | undefined;
+    const detail = body?.error?.message ?? (body ? JSON.stringify(body) : 'No response data');
+    const message = `Network Error: ${error.message} - ${detail}`;
+
+    if (status === undefined) {
+      // No response at all: timeouts, resets and DNS failures are worth retrying
+      return new MozUpstreamError(message, { retryable: true });
+    }
+    if (status === 429) {
+      return new MozRateLimitError(message, {
+        status,
+        retryAfterMs: parseRetryAfter(error.response?.headers?.['retry-after']),
+      });
+    }
+    if (status === 401 || status === 403) {
+      return new MozAuthError(message, { status });
+    }
+    if (status === 402 || /quota/i.test(detail)) {
+      return new MozQuotaExceededError(message, { status });
+    }
+    if (status === 400 || status === 422) {
+      return new MozInvalidParamsError(message, { status });
+    }
+    return new MozUpstreamError(message, { status, retryable: status >= 500 });
+  }
+
+  private classifyRpcError(rpcError: NonNullable<JsonRpcResponse['error']>): MozApiError {
+    const message = `Moz API Error: ${rpcError.message} (Code: ${rpcError.code})`;
+    const rpcCode = rpcError.code;
+
+    if (/rate limit|too many requests/i.test(rpcError.message)) {
+      return new MozRateLimitError(message, { rpcCode });
+    }
+    if (/quota|insufficient rows/i.test(rpcError.message)) {
+      return new MozQuotaExceededError(message, { rpcCode });
+    }
+    if (/unauthori[sz]ed|forbidden|authentication|invalid token/i.test(rpcError.message)) {
+      return new MozAuthError(message, { rpcCode });
+    }
+    if (rpcCode === -32602 || rpcCode === -32600) {
+      return new MozInvalidParamsError(message, { rpcCode });
+    }
+    return new MozUpstreamError(message, { rpcCode, retryable: rpcCode === -32603 });
+  }
+
   // Core working methods based on official Moz API V3 documentation
-  async getQuota(): Promise<any> {
+  async getQuota(): Promise<QuotaResult> {
     const request = this.createRequest('quota.lookup', {
       data: {
         path: 'api.limits.data.rows',
       },
     });
-    return this.sendRequest(request);
+    return this.sendRequest(request, QuotaSchema);
+  }
+
+  private serpQuery(keyword: string, options?: SerpOptions) {
+    const device = options?.device || 'desktop';
+    const engine = options?.engine || 'google';
+    if (!DEVICES.includes(device)) {
+      throw new MozInvalidParamsError(`Invalid device "${device}": expected one of ${DEVICES.join(', ')}`);
+    }
+    if (!ENGINES.includes(engine)) {
+      throw new MozInvalidParamsError(`Invalid engine "${engine}": expected one of ${ENGINES.join(', ')}`);
+    }
+    return {
+      keyword,
+      locale: options?.locale || 'en-US',
+      device,
+      engine,
+    };
   }
 
   // Keyword Methods
-  async getKeywordSearchIntent(keyword: string, options?: {
-    locale?: string;
-    engine?: string;
-  }): Promise<any> {
+  async getKeywordSearchIntent(keyword: string, options?: SerpOptions): Promise<KeywordIntentResult> {
     const request = this.createRequest('data.keyword.search.intent.fetch', {
       data: {
-        serp_query: {
-          keyword,
-          locale: options?.locale || 'en-US',
-          device: 'desktop',
-          engine: options?.engine || 'google',
-        },
+        serp_query: this.serpQuery(keyword, options),
       },
     });
-    return this.sendRequest(request);
+    return this.sendRequest(request, KeywordIntentSchema);
   }
 
-  async getKeywordSuggestions(keyword: string, options?: {
-    locale?: string;
+  async getKeywordSuggestions(keyword: string, options?: SerpOptions & {
     limit?: number;
-  }): Promise<any> {
+    offset?: number;
+  }): Promise<KeywordSuggestionsResult> {
     const request = this.createRequest('data.keyword.suggestions.list', {
       data: {
-        serp_query: {
-          keyword,
-          locale: options?.locale || 'en-US',
-          device: 'desktop',
-          engine: 'google',
-        },
+        serp_query: this.serpQuery(keyword, options),
+        ...(options?.limit && { limit: options.limit }),
+        ...(options?.offset && { offset: options.offset }),
       },
     });
-    return this.sendRequest(request);
+    return this.sendRequest(request, KeywordSuggestionsSchema);
   }
 
-  async getKeywordDifficulty(keyword: string, options?: {
-    locale?: string;
-    engine?: string;
-  }): Promise<any> {
+  async getKeywordDifficulty(keyword: string, options?: SerpOptions): Promise<KeywordMetricsResult> {
     const request = this.createRequest('data.keyword.metrics.difficulty.fetch', {
       data: {
-        serp_query: {
-          keyword,
-          locale: options?.locale || 'en-US',
-          device: 'desktop',
-          engine: options?.engine || 'google',
-        },
+        serp_query: this.serpQuery(keyword, options),
       },
     });
-    return this.sendRequest(request);
+    return this.sendRequest(request, KeywordMetricsSchema);
   }
 
-  async getKeywordVolume(keyword: string, options?: {
-    locale?: string;
-    engine?: string;
-  }): Promise<any> {
+  async getKeywordVolume(keyword: string, options?: SerpOptions): Promise<KeywordMetricsResult> {
     const request = this.createRequest('data.keyword.metrics.volume.fetch', {
       data: {
-        serp_query: {
-          keyword,
-          locale: options?.locale || 'en-US',
-          device: 'desktop',
-          engine: options?.engine || 'google',
-        },
+        serp_query: this.serpQuery(keyword, options),
       },
     });
-    return this.sendRequest(request);
+    return this.sendRequest(request, KeywordMetricsSchema);
   }
 
-  async getKeywordMetrics(keyword: string, options?: {
-    locale?: string;
-    engine?: string;
-  }): Promise<any> {
+  async getKeywordMetrics(keyword: string, options?: SerpOptions): Promise<KeywordMetricsResult> {
     const request = this.createRequest('data.keyword.metrics.fetch', {
       data: {
-        serp_query: {
-          keyword,
-          locale: options?.locale || 'en-US',
-          device: 'desktop',
-          engine: options?.engine || 'google',
-        },
+        serp_query: this.serpQuery(keyword, options),
       },
     });
-    return this.sendRequest(request);
+    return this.sendRequest(request, KeywordMetricsSchema);
   }
 
-  async getKeywordOpportunity(keyword: string, options?: {
-    locale?: string;
-    engine?: string;
-  }): Promise<any> {
+  async getKeywordOpportunity(keyword: string, options?: SerpOptions): Promise<KeywordMetricsResult> {
     const request = this.createRequest('data.keyword.metrics.opportunity.fetch', {
       data: {
-        serp_query: {
-          keyword,
-          locale: options?.locale || 'en-US',
-          device: 'desktop',
-          engine: options?.engine || 'google',
-        },
+        serp_query: this.serpQuery(keyword, options),
       },
     });
-    return this.sendRequest(request);
+    return this.sendRequest(request, KeywordMetricsSchema);
   }
 
-  async getKeywordPriority(keyword: string, options?: {
-    locale?: string;
-    engine?: string;
-  }): Promise<any> {
+  async getKeywordPriority(keyword: string, options?: SerpOptions): Promise<KeywordMetricsResult> {
     const request = this.createRequest('data.keyword.metrics.priority.fetch', {
       data: {
-        serp_query: {
-          keyword,
-          locale: options?.locale || 'en-US',
-          device: 'desktop',
-          engine: options?.engine || 'google',
-        },
+        serp_query: this.serpQuery(keyword, options),
       },
     });
-    return this.sendRequest(request);
+    return this.sendRequest(request, KeywordMetricsSchema);
+  }
+
+  // Desktop and mobile metrics side by side for the same keyword
+  async compareKeywordMetricsByDevice(keyword: string, options?: Omit<SerpOptions, 'device'>): Promise<KeywordDeviceComparison> {
+    const [desktop, mobile] = await Promise.all([
+      this.getKeywordMetrics(keyword, { ...options, device: 'desktop' }),
+      this.getKeywordMetrics(keyword, { ...options, device: 'mobile' }),
+    ]);
+    const difference = (field: KeywordMetricField) => {
+      const desktopValue = desktop.keyword_metrics[field];
+      const mobileValue = mobile.keyword_metrics[field];
+      return typeof desktopValue === 'number' && typeof mobileValue === 'number' ? mobileValue - desktopValue : null;
+    };
+
+    return {
+      keyword,
+      locale: options?.locale || 'en-US',
+      engine: options?.engine || 'google',
+      desktop: desktop.keyword_metrics,
+      mobile: mobile.keyword_metrics,
+      mobile_minus_desktop: {
+        volume: difference('volume'),
+        difficulty: difference('difficulty'),
+        organic_ctr: difference('organic_ctr'),
+        priority: difference('priority'),
+      },
+    };
   }
 
   // Site Metrics Methods
-  async getSiteBrandAuthority(site: string): Promise<any> {
+  async getSiteBrandAuthority(site: string): Promise<BrandAuthorityResult> {
     const request = this.createRequest('data.site.metrics.brand.authority.fetch', {
       data: {
         site_query: {
@@ -257,10 +655,10 @@ export class MozApiClient {
         },
       },
     });
-    return this.sendRequest(request);
+    return this.sendRequest(request, BrandAuthoritySchema);
   }
 
-  async getSiteMetrics(site: string): Promise<any> {
+  async getSiteMetrics(site: string): Promise<SiteMetricsResult> {
     const request = this.createRequest('data.site.metrics.fetch', {
       data: {
         site_query: {
@@ -269,14 +667,15 @@ export class MozApiClient {
         },
       },
     });
-    return this.sendRequest(request);
+    return this.sendRequest(request, SiteMetricsSchema);
   }
 
   async getSiteRankingKeywords(site: string, options?: {
     engine?: string;
     locale?: string;
     limit?: number;
-  }): Promise<any> {
+    offset?: number;
+  }): Promise<RankingKeywordsResult> {
     const request = this.createRequest('data.site.ranking.keywords.list', {
       data: {
         target_query: {
@@ -289,15 +688,16 @@ export class MozApiClient {
           locale: options?.locale || 'en-US',
         },
         limit: options?.limit || 100,
+        ...(options?.offset && { offset: options.offset }),
       },
     });
-    return this.sendRequest(request);
+    return this.sendRequest(request, RankingKeywordsSchema);
   }
 
   async getUrlMetrics(targets: string[], options?: { 
     metrics?: string[],
     scope?: 'page' | 'subdomain' | 'root_domain' 
-  }): Promise<any> {
+  }): Promise<UrlMetricsResult> {
     const request = this.createRequest('data.url_metrics', {
       data: {
         targets,
@@ -305,7 +705,7 @@ export class MozApiClient {
         ...(options?.metrics && { metrics: options.metrics }),
       },
     });
-    return this.sendRequest(request);
+    return this.sendRequest(request, UrlMetricsSchema);
   }
 
   async getLinks(target: string, options?: {
@@ -313,51 +713,57 @@ export class MozApiClient {
     sort?: string;
     filter?: string;
     limit?: number;
+    nextToken?: string;
     sourceScope?: 'page' | 'subdomain' | 'root_domain';
-  }): Promise<any> {
+  }): Promise<LinksResult> {
     const request = this.createRequest('data.links', {
       data: {
         target,
         scope: options?.scope || 'page',
         limit: options?.limit || 50,
+        ...(options?.nextToken && { next_token: options.nextToken }),
         ...(options?.sort && { sort: options.sort }),
         ...(options?.filter && { filter: options.filter }),
         ...(options?.sourceScope && { source_scope: options.sourceScope }),
       },
     });
-    return this.sendRequest(request);
+    return this.sendRequest(request, LinksSchema);
   }
 
   async getAnchorText(target: string, options?: {
     scope?: 'page' | 'subdomain' | 'root_domain';
     sort?: string;
     limit?: number;
-  }): Promise<any> {
+    nextToken?: string;
+  }): Promise<AnchorTextResult> {
     const request = this.createRequest('data.anchor_text', {
       data: {
         target,
         scope: options?.scope || 'page',
         limit: options?.limit || 50,
+        ...(options?.nextToken && { next_token: options.nextToken }),
         ...(options?.sort && { sort: options.sort }),
       },
     });
-    return this.sendRequest(request);
+    return this.sendRequest(request, AnchorTextSchema);
   }
 
   async getTopPages(target: string, options?: {
     scope?: 'subdomain' | 'root_domain';
     sort?: string;
     limit?: number;
-  }): Promise<any> {
+    nextToken?: string;
+  }): Promise<TopPagesResult> {
     const request = this.createRequest('data.top_pages', {
       data: {
         target,
         scope: options?.scope || 'root_domain',
         limit: options?.limit || 50,
+        ...(options?.nextToken && { next_token: options.nextToken }),
         ...(options?.sort && { sort: options.sort }),
       },
     });
-    return this.sendRequest(request);
+    return this.sendRequest(request, TopPagesSchema);
   }
 
   async getLinkingDomains(target: string, options?: {
@@ -365,55 +771,57 @@ export class MozApiClient {
     sort?: string;
     filter?: string;
     limit?: number;
-  }): Promise<any> {
+    nextToken?: string;
+  }): Promise<LinkingDomainsResult> {
     const request = this.createRequest('data.linking_domains', {
       data: {
         target,
         scope: options?.scope || 'page',
         limit: options?.limit || 50,
+        ...(options?.nextToken && { next_token: options.nextToken }),
         ...(options?.sort && { sort: options.sort }),
         ...(options?.filter && { filter: options.filter }),
       },
     });
-    return this.sendRequest(request);
+    return this.sendRequest(request, LinkingDomainsSchema);
   }
 
   async getGlobalTopPages(options?: {
     limit?: number;
-  }): Promise<any> {
+  }): Promise<GlobalTopPagesResult> {
     const request = this.createRequest('data.global.top.pages.list', {
       data: {
         limit: options?.limit || 100,
       },
     });
-    return this.sendRequest(request);
+    return this.sendRequest(request, GlobalTopPagesSchema);
   }
 
   async getGlobalTopDomains(options?: {
     limit?: number;
-  }): Promise<any> {
+  }): Promise<GlobalTopDomainsResult> {
     const request = this.createRequest('data.global.top.domains.list', {
       data: {
         limit: options?.limit || 100,
       },
     });
-    return this.sendRequest(request);
+    return this.sendRequest(request, GlobalTopDomainsSchema);
   }
 
   async getUsageData(options?: {
     start?: string;
     end?: string;
-  }): Promise<any> {
+  }): Promise<UsageResult> {
     const request = this.createRequest('data.usage', {
       data: {
         ...(options?.start && { start: options.start }),
         ...(options?.end && { end: options.end }),
       },
     });
-    return this.sendRequest(request);
+    return this.sendRequest(request, UsageSchema);
   }
 
-  async getSiteMetricsMultiple(sites: string[]): Promise<any> {
+  async getSiteMetricsMultiple(sites: string[]): Promise<SiteMetricsMultipleResult> {
     const request = this.createRequest('data.site.metrics.fetch.multiple', {
       data: {
         site_queries: sites.map(site => ({
@@ -422,13 +830,13 @@ export class MozApiClient {
         })),
       },
     });
-    return this.sendRequest(request);
+    return this.sendRequest(request, SiteMetricsMultipleSchema);
   }
 
   async getSiteRankingKeywordsCount(site: string, options?: {
     engine?: string;
     locale?: string;
-  }): Promise<any> {
+  }): Promise<RankingKeywordsCountResult> {
     const request = this.createRequest('site.ranking_keywords.count', {
       data: {
         site,
@@ -436,10 +844,501 @@ export class MozApiClient {
         locale: options?.locale || 'en-US',
       },
     });
-    return this.sendRequest(request);
+    return this.sendRequest(request, RankingKeywordsCountSchema);
+  }
+
+  // Pagination - each pager walks one list endpoint page by page, see paginate()
+  siteRankingKeywordsPager(site: string, options?: PagerOptions<'getSiteRankingKeywords'>): Pager<RankingKeyword> {
+    return {
+      maxPageSize: MAX_V3_PAGE_SIZE,
+      fetchPage: async (pageToken, pageSize) => {
+        const offset = decodeOffsetToken(pageToken);
+        const result = await this.getSiteRankingKeywords(site, { ...options, limit: pageSize, offset });
+        const items = result.ranking_keywords;
+        return { items, nextToken: nextOffsetToken(offset, pageSize, items.length) };
+      },
+    };
+  }
+
+  // Up to `limit` of a site's ranking keywords, across as many pages as needed
+  private async collectRankingKeywords(
+    site: string,
+    limit = DEFAULT_RANKING_KEYWORDS,
+    options?: { engine?: string; locale?: string }
+  ): Promise<RankingKeyword[]> {
+    const page = await collectPages(
+      this.siteRankingKeywordsPager(site, { engine: options?.engine, locale: options?.locale }),
+      { maxRows: limit }
+    );
+    return page.items;
+  }
+
+  keywordSuggestionsPager(keyword: string, options?: PagerOptions<'getKeywordSuggestions'>): Pager<KeywordSuggestion> {
+    return {
+      maxPageSize: MAX_V3_PAGE_SIZE,
+      fetchPage: async (pageToken, pageSize) => {
+        const offset = decodeOffsetToken(pageToken);
+        const result = await this.getKeywordSuggestions(keyword, { ...options, limit: pageSize, offset });
+        const items = result.suggestions;
+        return { items, nextToken: nextOffsetToken(offset, pageSize, items.length) };
+      },
+    };
+  }
+
+  linksPager(target: string, options?: PagerOptions<'getLinks'>): Pager<Link> {
+    return {
+      maxPageSize: MAX_LINKS_PAGE_SIZE,
+      fetchPage: async (pageToken, pageSize) => {
+        const result = await this.getLinks(target, { ...options, limit: pageSize, nextToken: pageToken });
+        return { items: result.results, nextToken: result.next_token || undefined };
+      },
+    };
+  }
+
+  anchorTextPager(target: string, options?: PagerOptions<'getAnchorText'>): Pager<AnchorText> {
+    return {
+      maxPageSize: MAX_LINKS_PAGE_SIZE,
+      fetchPage: async (pageToken, pageSize) => {
+        const result = await this.getAnchorText(target, { ...options, limit: pageSize, nextToken: pageToken });
+        return { items: result.results, nextToken: result.next_token || undefined };
+      },
+    };
+  }
+
+  linkingDomainsPager(target: string, options?: PagerOptions<'getLinkingDomains'>): Pager<LinkingDomain> {
+    return {
+      maxPageSize: MAX_LINKS_PAGE_SIZE,
+      fetchPage: async (pageToken, pageSize) => {
+        const result = await this.getLinkingDomains(target, { ...options, limit: pageSize, nextToken: pageToken });
+        return { items: result.results, nextToken: result.next_token || undefined };
+      },
+    };
+  }
+
+  topPagesPager(target: string, options?: PagerOptions<'getTopPages'>): Pager<TopPage> {
+    return {
+      maxPageSize: MAX_LINKS_PAGE_SIZE,
+      fetchPage: async (pageToken, pageSize) => {
+        const result = await this.getTopPages(target, { ...options, limit: pageSize, nextToken: pageToken });
+        return { items: result.results, nextToken: result.next_token || undefined };
+      },
+    };
+  }
+
+  // Bulk keyword research - metrics and intent for many keywords at once
+  async getBulkKeywordMetrics(keywords: string[], options?: SerpOptions & {
+    includeIntent?: boolean;
+    // Set to false to look up intent only
+    includeMetrics?: boolean;
+    concurrency?: number;
+  }): Promise<BulkKeywordRow[]> {
+    const includeIntent = options?.includeIntent !== false;
+    const includeMetrics = options?.includeMetrics !== false;
+    const keywordOptions = { locale: options?.locale, engine: options?.engine, device: options?.device };
+
+    return mapWithConcurrency(keywords, options?.concurrency ?? DEFAULT_BULK_CONCURRENCY, async (keyword) => {
+      const [metrics, intent] = await Promise.allSettled([
+        includeMetrics ? this.getKeywordMetrics(keyword, keywordOptions) : Promise.resolve(undefined),
+        includeIntent ? this.getKeywordSearchIntent(keyword, keywordOptions) : Promise.resolve(undefined),
+      ]);
+
+      const row: BulkKeywordRow = {
+        keyword,
+        difficulty: null,
+        volume: null,
+        organic_ctr: null,
+        priority: null,
+        intent: null,
+      };
+      const errors: string[] = [];
+
+      if (metrics.status === 'fulfilled') {
+        const { difficulty, volume, organic_ctr, priority } = metrics.value?.keyword_metrics ?? {};
+        row.difficulty = difficulty ?? null;
+        row.volume = volume ?? null;
+        row.organic_ctr = organic_ctr ?? null;
+        row.priority = priority ?? null;
+      } else {
+        errors.push(`metrics: ${errorMessage(metrics.reason)}`);
+      }
+
+      if (intent.status === 'fulfilled') {
+        row.intent = intent.value?.keyword_intent.primary_intent?.[0]?.label ?? null;
+      } else {
+        errors.push(`intent: ${errorMessage(intent.reason)}`);
+      }
+
+      if (errors.length > 0) {
+        row.error = errors.join('; ');
+      }
+      return row;
+    });
+  }
+
+  // Keyword clustering - gathers keywords from the given sources, looks up the
+  // metrics and intent they lack, then groups them offline
+  async getKeywordClusters(sources: {
+    keywords?: string[];
+    seedKeyword?: string;
+    site?: string;
+    // Rows taken from each of the suggestion and ranking keyword sources
+    limit?: number;
+  }, options?: SerpOptions & {
+    includeIntent?: boolean;
+    threshold?: number;
+    concurrency?: number;
+  }): Promise<KeywordClustersResult> {
+    const limit = sources.limit ?? 100;
+    const serpOptions = { locale: options?.locale, engine: options?.engine, device: options?.device };
+    const known = new Map<string, ClusteredKeyword>();
+
+    // Ranking keywords come with volume and difficulty, so only intent is missing
+    if (sources.site) {
+      const ranking = await this.collectRankingKeywords(sources.site, limit, options);
+      for (const row of ranking) {
+        const keyword = normalizeKeyword(row.keyword);
+        if (keyword && !known.has(keyword)) {
+          known.set(keyword, { keyword, volume: row.volume ?? null, difficulty: row.difficulty ?? null, intent: null });
+        }
+      }
+    }
+
+    const candidates = [...(sources.keywords ?? [])];
+    if (sources.seedKeyword) {
+      const suggestions = await collectPages(
+        this.keywordSuggestionsPager(sources.seedKeyword, serpOptions),
+        { maxRows: limit }
+      );
+      candidates.push(sources.seedKeyword, ...suggestions.items.map(item => item.keyword));
+    }
+    const unknown = parseKeywordList(candidates).filter(keyword => !known.has(keyword));
+
+    const lookupOptions = {
+      ...serpOptions,
+      includeIntent: options?.includeIntent !== false,
+      concurrency: options?.concurrency,
+    };
+    const rows = [
+      ...await this.getBulkKeywordMetrics(unknown, lookupOptions),
+      ...(lookupOptions.includeIntent
+        ? await this.getBulkKeywordMetrics([...known.keys()], { ...lookupOptions, includeMetrics: false })
+        : []),
+    ];
+
+    const failed: KeywordClustersResult['failed'] = [];
+    for (const row of rows) {
+      const entry = known.get(row.keyword) ?? { keyword: row.keyword, volume: null, difficulty: null, intent: null };
+      entry.volume ??= row.volume;
+      entry.difficulty ??= row.difficulty;
+      entry.intent = row.intent;
+      known.set(row.keyword, entry);
+      if (row.error) {
+        failed.push({ keyword: row.keyword, error: row.error });
+      }
+    }
+
+    const keywords = [...known.values()];
+    return {
+      keywords: keywords.length,
+      failed,
+      clusters: clusterKeywords(keywords, { threshold: options?.threshold }),
+    };
+  }
+
+  // Content gap - ranking keywords of a site against its competitors. A failed
+  // competitor is reported in `errors` and left out of the comparison.
+  async getKeywordGap(site: string, competitors: string[], options?: {
+    engine?: string;
+    locale?: string;
+    // Ranking keywords fetched per site
+    limit?: number;
+    sortBy?: GapSortKey;
+    // Rows kept per result section
+    top?: number;
+  }): Promise<KeywordGapResult> {
+    const rankingKeywords = (target: string) => this.collectRankingKeywords(target, options?.limit, options);
+
+    const primary = { site, keywords: await rankingKeywords(site) };
+    const fetched = await mapWithConcurrency(competitors, DEFAULT_BULK_CONCURRENCY, async (
+      competitor
+    ): Promise<SiteRankings | { site: string; error: string }> => {
+      try {
+        return { site: competitor, keywords: await rankingKeywords(competitor) };
+      } catch (error) {
+        return { site: competitor, error: errorMessage(error) };
+      }
+    });
+
+    const result = computeKeywordGap(
+      primary,
+      fetched.filter((entry): entry is SiteRankings => 'keywords' in entry),
+      { sortBy: options?.sortBy, limit: options?.top }
+    );
+    const errors: Record<string, string> = {};
+    for (const entry of fetched) {
+      if ('error' in entry) {
+        errors[entry.site] = entry.error;
+      }
+    }
+    return Object.keys(errors).length > 0 ? { ...result, errors } : result;
+  }
+
+  // Keyword opportunities - the site's ranking keywords enriched with keyword
+  // metrics and ranked by the traffic gained if their pages reached the top 3
+  async getKeywordOpportunities(site: string, options?: SerpOptions & {
+    // Ranking keywords fetched
+    limit?: number;
+    strikingDistanceOnly?: boolean;
+    minVolume?: number;
+    maxDifficulty?: number;
+    // Opportunities returned
+    top?: number;
+    concurrency?: number;
+  }): Promise<KeywordOpportunitiesResult> {
+    const ranking = await this.collectRankingKeywords(site, options?.limit, options);
+    // Striking distance is known from the ranking data, so other keywords
+    // need no metrics lookup when only striking distance is wanted
+    const rankings = options?.strikingDistanceOnly
+      ? ranking.filter(row => isStrikingDistance(row.rank_position ?? null))
+      : ranking;
+    const keywords = [...new Set(rankings.map(row => normalizeKeyword(row.keyword)).filter(Boolean))];
+    const metrics = await this.getBulkKeywordMetrics(keywords, {
+      locale: options?.locale,
+      engine: options?.engine,
+      device: options?.device,
+      includeIntent: false,
+      concurrency: options?.concurrency,
+    });
+
+    const scored = scoreOpportunities(rankings, metrics);
+    const opportunities = scored.filter(row =>
+      (options?.minVolume === undefined || (row.volume ?? 0) >= options.minVolume) &&
+      (options?.maxDifficulty === undefined || row.difficulty === null || row.difficulty <= options.maxDifficulty)
+    );
+    return {
+      site,
+      keywords_analyzed: scored.length,
+      striking_distance: scored.filter(row => row.striking_distance).length,
+      failed: metrics.filter(row => row.error).length,
+      total_traffic_uplift: opportunities.reduce((sum, row) => sum + row.traffic_uplift, 0),
+      pages: pageOpportunities(opportunities),
+      opportunities: opportunities.slice(0, options?.top ?? opportunities.length),
+    };
   }
 
-  // Comprehensive competitor analysis method
+  // Competitor discovery - linking domains and seeds ranked by how much of the
+  // site's keyword volume they also rank for. A candidate whose keywords
+  // cannot be fetched is reported in `errors` and left out.
+  async discoverCompetitors(site: string, options?: {
+    seeds?: string[];
+    engine?: string;
+    locale?: string;
+    // Ranking keywords fetched per site
+    limit?: number;
+    // Linking domains evaluated as candidates
+    candidates?: number;
+    excludeDomains?: string[];
+    // Minimum volume overlap in percent for linking domain candidates
+    minOverlap?: number;
+    // Competitors returned
+    top?: number;
+  }): Promise<CompetitorDiscoveryResult> {
+    const rankingKeywords = (target: string) => this.collectRankingKeywords(target, options?.limit, options);
+    const maxLinkingDomains = options?.candidates ?? DEFAULT_DISCOVERY_CANDIDATES;
+
+    const [keywords, linkingDomains] = await Promise.all([
+      rankingKeywords(site),
+      maxLinkingDomains > 0
+        ? collectPages(
+          this.linkingDomainsPager(site, { scope: 'root_domain', sort: 'source_domain_authority', filter: 'external' }),
+          { maxRows: discoveryLinkingDomainRows(maxLinkingDomains) }
+        ).then(page => page.items)
+        : Promise.resolve([]),
+    ]);
+
+    const candidates = discoveryCandidates(site, linkingDomains, options?.seeds ?? [], {
+      maxLinkingDomains,
+      excludeDomains: options?.excludeDomains,
+    });
+    const errors: Record<string, string> = {};
+    const fetched = (await mapWithConcurrency(candidates, DEFAULT_BULK_CONCURRENCY, async (candidate) => {
+      try {
+        return { site: candidate.domain, sources: candidate.sources, keywords: await rankingKeywords(candidate.domain) };
+      } catch (error) {
+        errors[candidate.domain] = errorMessage(error);
+        return undefined;
+      }
+    })).filter(entry => entry !== undefined);
+
+    const competitors = scoreCompetitors({ site, keywords }, fetched, options?.minOverlap)
+      .slice(0, options?.top ?? candidates.length);
+    return {
+      site,
+      keywords_analyzed: keywords.length,
+      candidates_evaluated: fetched.length,
+      competitors,
+      competitor_sites: competitors.map(competitor => competitor.domain),
+      ...(Object.keys(errors).length > 0 && { errors }),
+    };
+  }
+
+  // Link intersect - root domains linking to several competitors but not to
+  // the site, re-scored with url_metrics and filtered into a prospect list
+  async getLinkIntersect(site: string, competitors: string[], options?: IntersectFilters & {
+    linkType?: LinkType;
+    // Linking domains fetched per site
+    limit?: number;
+    // Prospects returned
+    top?: number;
+  }): Promise<LinkIntersectResult> {
+    const linkingDomains = async (target: string): Promise<SiteLinkingDomains> => {
+      const page = await collectPages(
+        this.linkingDomainsPager(target, {
+          scope: 'root_domain',
+          filter: options?.linkType && options.linkType !== 'all' ? `external+${options.linkType}` : 'external',
+        }),
+        { maxRows: options?.limit ?? 200 }
+      );
+      return { site: target, domains: page.items };
+    };
+
+    const primary = await linkingDomains(site);
+    const errors: Record<string, string> = {};
+    const fetched = (await mapWithConcurrency(competitors, DEFAULT_BULK_CONCURRENCY, async (competitor) => {
+      try {
+        return await linkingDomains(competitor);
+      } catch (error) {
+        errors[competitor] = errorMessage(error);
+        return undefined;
+      }
+    })).filter((entry): entry is SiteLinkingDomains => entry !== undefined);
+
+    const candidates = intersectLinkingDomains(primary, fetched, options?.minCompetitors);
+
+    // Authority and spam score from url_metrics, where the lookup succeeds
+    const batches: LinkIntersectRow[][] = [];
+    for (let i = 0; i < candidates.length; i += MAX_URL_METRICS_BATCH) {
+      batches.push(candidates.slice(i, i + MAX_URL_METRICS_BATCH));
+    }
+    await mapWithConcurrency(batches, DEFAULT_BULK_CONCURRENCY, async (batch) => {
+      try {
+        const { results } = await this.getUrlMetrics(batch.map(row => row.root_domain), { scope: 'root_domain' });
+        batch.forEach((row, index) => {
+          // Results follow the order of the targets; match by domain where Moz says which one it is
+          const metrics = results.find(result => result.root_domain && normalizeDomain(result.root_domain) === row.root_domain)
+            ?? (results.length === batch.length ? results[index] : undefined);
+          row.domain_authority = metrics?.domain_authority ?? row.domain_authority;
+          row.spam_score = metrics?.spam_score ?? row.spam_score;
+        });
+      } catch (error) {
+        this.log('URL metrics lookup failed, ranking on linking domain data:', errorMessage(error));
+      }
+    });
+
+    const prospects = rankProspects(filterProspects(candidates, options ?? {}));
+    return {
+      site,
+      competitors: fetched.map(entry => entry.site),
+      candidates: candidates.length,
+      filtered_out: candidates.length - prospects.length,
+      prospects: prospects.slice(0, options?.top ?? prospects.length),
+      ...(Object.keys(errors).length > 0 && { errors }),
+    };
+  }
+
+  // Snapshot data - the current metrics of tracked sites and keywords, with
+  // failed lookups recorded rather than thrown. Always fetched live, since a
+  // cached response would record old data under a new date. Sites are keyed by
+  // their normalized domain.
+  async getSnapshotData(sites: string[], keywords: string[], options?: {
+    locale?: string;
+    engine?: Engine;
+    // Ranking keywords recorded per site
+    rankingKeywordsLimit?: number;
+  }): Promise<SnapshotData> {
+    const context = currentCallContext();
+    return runInCallContext(
+      { fresh: true, calls: context?.calls ?? [] },
+      () => this.fetchSnapshotData([...new Set(sites.map(normalizeDomain))], keywords, options)
+    );
+  }
+
+  private async fetchSnapshotData(sites: string[], keywords: string[], options?: {
+    locale?: string;
+    engine?: Engine;
+    rankingKeywordsLimit?: number;
+  }): Promise<SnapshotData> {
+    // Keyed by site and keyword text, so without a prototype for keys like "constructor"
+    const data: SnapshotData = { sites: Object.create(null), keywords: Object.create(null) };
+
+    await mapWithConcurrency(sites, DEFAULT_BULK_CONCURRENCY, async (site) => {
+      const [metrics, brand, ranking] = await Promise.allSettled([
+        this.getSiteMetrics(site),
+        this.getSiteBrandAuthority(site),
+        this.collectRankingKeywords(site, options?.rankingKeywordsLimit, options),
+      ]);
+      const snapshot: SiteSnapshot = {
+        domain_authority: null,
+        page_authority: null,
+        spam_score: null,
+        brand_authority: null,
+        ranking_keywords: null,
+      };
+      const errors: string[] = [];
+
+      if (metrics.status === 'fulfilled') {
+        snapshot.domain_authority = metrics.value.site_metrics.domain_authority ?? null;
+        snapshot.page_authority = metrics.value.site_metrics.page_authority ?? null;
+        snapshot.spam_score = metrics.value.site_metrics.spam_score ?? null;
+      } else {
+        errors.push(`site metrics: ${errorMessage(metrics.reason)}`);
+      }
+      if (brand.status === 'fulfilled') {
+        snapshot.brand_authority = brand.value.brand_authority ?? null;
+      } else {
+        errors.push(`brand authority: ${errorMessage(brand.reason)}`);
+      }
+      if (ranking.status === 'fulfilled') {
+        const positions: Record<string, number | null> = Object.create(null);
+        for (const row of ranking.value) {
+          const keyword = normalizeKeyword(row.keyword);
+          const position = row.rank_position ?? null;
+          const existing = positions[keyword];
+          if (!Object.hasOwn(positions, keyword) || (position !== null && (existing === null || position < existing))) {
+            positions[keyword] = position;
+          }
+        }
+        snapshot.ranking_keywords = positions;
+      } else {
+        errors.push(`ranking keywords: ${errorMessage(ranking.reason)}`);
+      }
+
+      if (errors.length > 0) {
+        snapshot.errors = errors;
+      }
+      data.sites[site] = snapshot;
+    });
+
+    const rows = await this.getBulkKeywordMetrics(keywords, {
+      locale: options?.locale,
+      engine: options?.engine,
+      includeIntent: false,
+    });
+    for (const row of rows) {
+      data.keywords[row.keyword] = {
+        volume: row.volume,
+        difficulty: row.difficulty,
+        organic_ctr: row.organic_ctr,
+        priority: row.priority,
+        ...(row.error && { error: row.error }),
+      };
+    }
+    return data;
+  }
+
+  // Comprehensive competitor analysis method. The primary site, the
+  // competitors (at most `concurrency` at a time) and the target keyword are
+  // fetched in parallel.
   async getCompetitorAnalysis(
     primarySite: string,
     competitorSites: string[] = [],
@@ -447,81 +1346,64 @@ export class MozApiClient {
     options?: {
       locale?: string;
       include_keyword_analysis?: boolean;
+      concurrency?: number;
     }
-  ): Promise<any> {
+  ): Promise<CompetitorAnalysis> {
     const locale = options?.locale || 'en-US';
     const includeKeywordAnalysis = options?.include_keyword_analysis !== false;
+    const toError = (e: unknown) => ({ error: e instanceof Error ? e.message : String(e) });
+    const siteData = (site: string) => Promise.all([
+      this.getSiteMetrics(site).catch(toError),
+      this.getSiteBrandAuthority(site).catch(toError),
+      this.getSiteRankingKeywords(site, { locale, limit: 100 }).catch(toError),
+    ]).then(([site_metrics, brand_authority, ranking_keywords]) => ({ site_metrics, brand_authority, ranking_keywords }));
     
     try {
-      // Initialize results object
-      const analysis: any = {
-        primary_site: primarySite,
-        target_keyword: targetKeyword,
-        locale: locale,
-        analysis_timestamp: new Date().toISOString(),
-        primary_site_data: {},
-        competitor_data: [],
-        keyword_analysis: {},
-        insights: [],
-      };
-
       // 1. Get primary site data
-      console.error(`Analyzing primary site: ${primarySite}`);
-      const primarySitePromises = [
-        this.getSiteMetrics(primarySite).catch(e => ({ error: e.message })),
-        this.getSiteBrandAuthority(primarySite).catch(e => ({ error: e.message })),
-        this.getSiteRankingKeywords(primarySite, { locale, limit: 100 }).catch(e => ({ error: e.message }))
-      ];
-
-      const [primaryMetrics, primaryBrandAuth, primaryKeywords] = await Promise.all(primarySitePromises);
-      
-      analysis.primary_site_data = {
-        site_metrics: primaryMetrics,
-        brand_authority: primaryBrandAuth,
-        ranking_keywords: primaryKeywords,
-      };
+      this.log(`Analyzing primary site: ${primarySite}`);
+      const primary = siteData(primarySite);
 
       // 2. Get competitor data if provided
       if (competitorSites.length > 0) {
-        console.error(`Analyzing ${competitorSites.length} competitors`);
-        
-        for (const competitor of competitorSites) {
+        this.log(`Analyzing ${competitorSites.length} competitors`);
+      }
+      const competitors = mapWithConcurrency(
+        competitorSites,
+        options?.concurrency ?? DEFAULT_COMPETITOR_CONCURRENCY,
+        async (competitor) => {
           try {
-            const competitorPromises = [
-              this.getSiteMetrics(competitor).catch(e => ({ error: e.message })),
-              this.getSiteBrandAuthority(competitor).catch(e => ({ error: e.message })),
-              this.getSiteRankingKeywords(competitor, { locale, limit: 100 }).catch(e => ({ error: e.message }))
-            ];
-
-            const [compMetrics, compBrandAuth, compKeywords] = await Promise.all(competitorPromises);
-            
-            analysis.competitor_data.push({
-              site: competitor,
-              site_metrics: compMetrics,
-              brand_authority: compBrandAuth,
-              ranking_keywords: compKeywords,
-            });
+            return { site: competitor, ...await siteData(competitor) };
           } catch (error) {
-            analysis.competitor_data.push({
-              site: competitor,
-              error: `Failed to analyze: ${error}`,
-            });
+            return { site: competitor, error: `Failed to analyze: ${error}` };
           }
         }
-      }
+      );
 
       // 3. Get keyword analysis if requested
       if (includeKeywordAnalysis) {
-        console.error(`Analyzing target keyword: ${targetKeyword}`);
-        const keywordPromises = [
-          this.getKeywordMetrics(targetKeyword, { locale }).catch(e => ({ error: e.message })),
-          this.getKeywordDifficulty(targetKeyword, { locale }).catch(e => ({ error: e.message })),
-          this.getKeywordVolume(targetKeyword, { locale }).catch(e => ({ error: e.message })),
-          this.getKeywordSearchIntent(targetKeyword, { locale }).catch(e => ({ error: e.message }))
-        ];
-
-        const [keywordMetrics, keywordDifficulty, keywordVolume, keywordIntent] = await Promise.all(keywordPromises);
-        
+        this.log(`Analyzing target keyword: ${targetKeyword}`);
+      }
+      const keyword = includeKeywordAnalysis
+        ? Promise.all([
+          this.getKeywordMetrics(targetKeyword, { locale }).catch(toError),
+          this.getKeywordDifficulty(targetKeyword, { locale }).catch(toError),
+          this.getKeywordVolume(targetKeyword, { locale }).catch(toError),
+          this.getKeywordSearchIntent(targetKeyword, { locale }).catch(toError),
+        ])
+        : undefined;
+
+      const analysis: CompetitorAnalysis = {
+        primary_site: primarySite,
+        target_keyword: targetKeyword,
+        locale: locale,
+        analysis_timestamp: new Date().toISOString(),
+        primary_site_data: await primary,
+        competitor_data: await competitors,
+        insights: [],
+      };
+
+      if (keyword) {
+        const [keywordMetrics, keywordDifficulty, keywordVolume, keywordIntent] = await keyword;
         analysis.keyword_analysis = {
           keyword: targetKeyword,
           metrics: keywordMetrics,
@@ -532,19 +1414,20 @@ export class MozApiClient {
       }
 
       // 4. Generate insights
-      analysis.insights = this.generateCompetitorInsights(analysis);
+      analysis.insights = evaluateInsights(analysis, this.insightRules);
 
       // 5. Add guidance if no competitors provided
       if (competitorSites.length === 0) {
         analysis.competitor_identification_guidance = {
           message: "No competitors were specified. To find potential competitors, you can:",
           suggestions: [
-            "1. Look at the ranking keywords data above and see which sites rank for similar keywords",
-            "2. Search for your target keyword in Google and see which sites appear in top results",
-            "3. Use industry knowledge to identify known competitors",
-            "4. Once you identify potential competitors, run this analysis again with competitor_sites parameter"
+            "1. Run moz_discover_competitors for the site to rank candidate domains by shared ranking keywords",
+            "2. Look at the ranking keywords data above and see which sites rank for similar keywords",
+            "3. Search for your target keyword in Google and see which sites appear in top results",
+            "4. Use industry knowledge to identify known competitors",
+            "5. Once you identify potential competitors, run this analysis again with competitor_sites parameter"
           ],
-          note: "Moz API does not automatically identify competitors - you need to specify them manually"
+          note: "Moz API does not identify competitors itself - moz_discover_competitors finds candidates from keyword overlap"
         };
       }
 
@@ -553,77 +1436,4 @@ export class MozApiClient {
       throw new Error(`Competitor analysis failed: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
-
-  private generateCompetitorInsights(analysis: any): string[] {
-    const insights: string[] = [];
-    
-    try {
-      // Primary site insights
-      if (analysis.primary_site_data?.brand_authority?.result) {
-        const ba = analysis.primary_site_data.brand_authority.result.brand_authority;
-        if (ba) {
-          insights.push(`Primary site brand authority: ${ba} (${ba >= 70 ? 'Excellent' : ba >= 50 ? 'Good' : ba >= 30 ? 'Fair' : 'Needs improvement'})`);
-        }
-      }
-
-      // Keyword insights
-      if (analysis.keyword_analysis?.difficulty?.result) {
-        const difficulty = analysis.keyword_analysis.difficulty.result.difficulty;
-        if (difficulty) {
-          insights.push(`Target keyword "${analysis.target_keyword}" difficulty: ${difficulty}% (${difficulty >= 70 ? 'Very Hard' : difficulty >= 50 ? 'Hard' : difficulty >= 30 ? 'Medium' : 'Easy'})`);
-        }
-      }
-
-      if (analysis.keyword_analysis?.volume?.result) {
-        const volume = analysis.keyword_analysis.volume.result.volume;
-        if (volume) {
-          insights.push(`Target keyword monthly search volume: ${volume.toLocaleString()}`);
-        }
-      }
-
-      // Competitor comparison insights
-      if (analysis.competitor_data.length > 0) {
-        let strongerCompetitors = 0;
-        let weakerCompetitors = 0;
-        
-        const primaryBA = analysis.primary_site_data?.brand_authority?.result?.brand_authority;
-        
-        analysis.competitor_data.forEach((comp: any) => {
-          const compBA = comp.brand_authority?.result?.brand_authority;
-          if (primaryBA && compBA) {
-            if (compBA > primaryBA) strongerCompetitors++;
-            else if (compBA < primaryBA) weakerCompetitors++;
-          }
-        });
-
-        if (strongerCompetitors > 0 || weakerCompetitors > 0) {
-          insights.push(`Competitive landscape: ${strongerCompetitors} competitors have higher brand authority, ${weakerCompetitors} have lower`);
-        }
-      }
-
-      // Ranking keywords insights
-      if (analysis.primary_site_data?.ranking_keywords?.result) {
-        const keywords = analysis.primary_site_data.ranking_keywords.result;
-        if (keywords && keywords.length) {
-          insights.push(`Primary site ranks for ${keywords.length} keywords (showing up to 100)`);
-          
-          // Look for target keyword in ranking keywords
-          const targetFound = keywords.find((kw: any) => 
-            kw.keyword && kw.keyword.toLowerCase().includes(analysis.target_keyword.toLowerCase())
-          );
-          
-          if (targetFound) {
-            insights.push(`Primary site ranks for target keyword "${analysis.target_keyword}" at position ${targetFound.rank || 'unknown'}`);
-          } else {
-            insights.push(`Primary site does not appear to rank in top 100 for target keyword "${analysis.target_keyword}"`);
-          }
-        }
-      }
-
-    } catch (error) {
-      insights.push(`Note: Some insights could not be generated due to data analysis issues`);
-    }
-
-    return insights;
-  }
-}
\ No newline at end of file
+}
@@ -0,0 +1,472 @@
+import { z } from 'zod';
+
+// Response models for the Moz JSON-RPC API. Schemas only pin down the fields
+// this server relies on; anything else Moz sends is passed through untouched.
+
+const metricValue = z.number().nullable().optional();
+
+// SERP dimensions accepted by the keyword methods
+export const DEVICES = ['desktop', 'mobile'] as const;
+export const ENGINES = ['google', 'bing'] as const;
+export type Device = typeof DEVICES[number];
+export type Engine = typeof ENGINES[number];
+
+// Locales Moz has keyword data for
+export const LOCALES = [
+  'en-US', 'en-GB', 'en-CA', 'en-AU', 'en-IE', 'en-NZ', 'en-IN', 'en-ZA',
+  'de-DE', 'de-AT', 'de-CH', 'fr-FR', 'fr-CA', 'fr-BE', 'es-ES', 'es-MX',
+  'it-IT', 'nl-NL', 'nl-BE', 'pt-BR', 'pt-PT', 'sv-SE', 'da-DK', 'nb-NO',
+  'fi-FI', 'pl-PL', 'ja-JP',
+] as const;
+export type Locale = typeof LOCALES[number];
+
+export interface SerpOptions {
+  locale?: string;
+  engine?: Engine;
+  device?: Device;
+}
+
+// Keyword Models
+export const KeywordMetricsSchema = z.object({
+  keyword_metrics: z.object({
+    volume: metricValue,
+    difficulty: metricValue,
+    organic_ctr: metricValue,
+    priority: metricValue,
+  }).passthrough(),
+}).passthrough();
+
+export const KeywordIntentSchema = z.object({
+  keyword_intent: z.object({
+    all_intents: z.array(z.object({
+      label: z.string(),
+      score: z.number(),
+    }).passthrough()).optional(),
+    primary_intent: z.array(z.object({
+      label: z.string(),
+      score: z.number(),
+    }).passthrough()).optional(),
+  }).passthrough(),
+}).passthrough();
+
+export const KeywordSuggestionSchema = z.object({
+  keyword: z.string(),
+  relevance: metricValue,
+}).passthrough();
+
+export const KeywordSuggestionsSchema = z.object({
+  suggestions: z.array(KeywordSuggestionSchema),
+}).passthrough();
+
+// Site Models
+export const SiteMetricsSchema = z.object({
+  site_metrics: z.object({
+    page: z.string().optional(),
+    subdomain: z.string().optional(),
+    root_domain: z.string().optional(),
+    page_authority: metricValue,
+    domain_authority: metricValue,
+    spam_score: metricValue,
+    root_domains_to_root_domain: metricValue,
+    external_pages_to_root_domain: metricValue,
+  }).passthrough(),
+}).passthrough();
+
+export const SiteMetricsMultipleSchema = z.object({
+  site_metrics: z.array(SiteMetricsSchema.shape.site_metrics),
+}).passthrough();
+
+export const BrandAuthoritySchema = z.object({
+  brand_authority: metricValue,
+}).passthrough();
+
+export const RankingKeywordSchema = z.object({
+  keyword: z.string(),
+  rank_position: metricValue,
+  ranking_page: z.string().nullable().optional(),
+  difficulty: metricValue,
+  volume: metricValue,
+}).passthrough();
+
+export const RankingKeywordsSchema = z.object({
+  ranking_keywords: z.array(RankingKeywordSchema),
+}).passthrough();
+
+// Link Models
+export const UrlMetricsSchema = z.object({
+  results: z.array(z.object({
+    page: z.string().optional(),
+    root_domain: z.string().optional(),
+    domain_authority: metricValue,
+    page_authority: metricValue,
+    spam_score: metricValue,
+  }).passthrough()),
+}).passthrough();
+
+export const LinksSchema = z.object({
+  results: z.array(z.object({
+    source: z.object({
+      page: z.string().optional(),
+      root_domain: z.string().optional(),
+      domain_authority: metricValue,
+      page_authority: metricValue,
+      spam_score: metricValue,
+    }).passthrough(),
+    target: z.object({
+      page: z.string().optional(),
+    }).passthrough().optional(),
+    anchor_text: z.string().nullable().optional(),
+    nofollow: z.boolean().optional(),
+  }).passthrough()),
+  next_token: z.string().nullable().optional(),
+}).passthrough();
+
+export const AnchorTextSchema = z.object({
+  results: z.array(z.object({
+    anchor_text: z.string(),
+    external_pages: metricValue,
+    external_root_domains: metricValue,
+  }).passthrough()),
+  next_token: z.string().nullable().optional(),
+}).passthrough();
+
+export const LinkingDomainsSchema = z.object({
+  results: z.array(z.object({
+    root_domain: z.string(),
+    domain_authority: metricValue,
+    spam_score: metricValue,
+  }).passthrough()),
+  next_token: z.string().nullable().optional(),
+}).passthrough();
+
+export const TopPagesSchema = z.object({
+  results: z.array(z.object({
+    page: z.string(),
+    title: z.string().nullable().optional(),
+    page_authority: metricValue,
+  }).passthrough()),
+  next_token: z.string().nullable().optional(),
+}).passthrough();
+
+// Global Models
+export const GlobalTopPagesSchema = z.object({
+  results: z.array(z.object({
+    page: z.string(),
+    page_authority: metricValue,
+  }).passthrough()),
+}).passthrough();
+
+export const GlobalTopDomainsSchema = z.object({
+  results: z.array(z.object({
+    root_domain: z.string(),
+    domain_authority: metricValue,
+  }).passthrough()),
+}).passthrough();
+
+export const RankingKeywordsCountSchema = z.object({
+  count: metricValue,
+}).passthrough();
+
+// Account Models
+export const UsageSchema = z.object({
+  usage: z.array(z.object({
+    day: z.string(),
+    rows: metricValue,
+  }).passthrough()),
+}).passthrough();
+
+export const QuotaSchema = z.object({
+  quota: z.object({
+    path: z.string().optional(),
+    provisioned: metricValue,
+    used: metricValue,
+  }).passthrough(),
+}).passthrough();
+
+export type KeywordMetricsResult = z.infer<typeof KeywordMetricsSchema>;
+export type KeywordIntentResult = z.infer<typeof KeywordIntentSchema>;
+export type KeywordSuggestion = z.infer<typeof KeywordSuggestionSchema>;
+export type KeywordSuggestionsResult = z.infer<typeof KeywordSuggestionsSchema>;
+export type SiteMetricsResult = z.infer<typeof SiteMetricsSchema>;
+export type SiteMetricsMultipleResult = z.infer<typeof SiteMetricsMultipleSchema>;
+export type BrandAuthorityResult = z.infer<typeof BrandAuthoritySchema>;
+export type RankingKeyword = z.infer<typeof RankingKeywordSchema>;
+export type RankingKeywordsResult = z.infer<typeof RankingKeywordsSchema>;
+export type UrlMetricsResult = z.infer<typeof UrlMetricsSchema>;
+export type LinksResult = z.infer<typeof LinksSchema>;
+export type Link = LinksResult['results'][number];
+export type AnchorTextResult = z.infer<typeof AnchorTextSchema>;
+export type AnchorText = AnchorTextResult['results'][number];
+export type LinkingDomainsResult = z.infer<typeof LinkingDomainsSchema>;
+export type LinkingDomain = LinkingDomainsResult['results'][number];
+export type TopPagesResult = z.infer<typeof TopPagesSchema>;
+export type TopPage = TopPagesResult['results'][number];
+export type GlobalTopPagesResult = z.infer<typeof GlobalTopPagesSchema>;
+export type GlobalTopDomainsResult = z.infer<typeof GlobalTopDomainsSchema>;
+export type RankingKeywordsCountResult = z.infer<typeof RankingKeywordsCountSchema>;
+export type UsageResult = z.infer<typeof UsageSchema>;
+export type QuotaResult = z.infer<typeof QuotaSchema>;
+
+export type KeywordMetricField = 'volume' | 'difficulty' | 'organic_ctr' | 'priority';
+
+export interface KeywordDeviceComparison {
+  keyword: string;
+  locale: string;
+  engine: Engine;
+  desktop: KeywordMetricsResult['keyword_metrics'];
+  mobile: KeywordMetricsResult['keyword_metrics'];
+  // Mobile value minus desktop value, null where either side is missing
+  mobile_minus_desktop: Record<KeywordMetricField, number | null>;
+}
+
+// One row of the bulk keyword table; failed lookups leave their fields null
+// and explain why in `error`.
+export interface BulkKeywordRow {
+  keyword: string;
+  difficulty: number | null;
+  volume: number | null;
+  organic_ctr: number | null;
+  priority: number | null;
+  intent: string | null;
+  error?: string;
+}
+
+export interface ClusteredKeyword {
+  keyword: string;
+  volume: number | null;
+  difficulty: number | null;
+  intent: string | null;
+}
+
+// A topic group of keywords; the pillar is the keyword to build the topic's
+// main page around
+export interface KeywordCluster {
+  topic: string;
+  pillar_keyword: string;
+  size: number;
+  total_volume: number;
+  average_difficulty: number | null;
+  primary_intent: string | null;
+  intents: Record<string, number>;
+  keywords: ClusteredKeyword[];
+}
+
+export interface KeywordGapRow {
+  keyword: string;
+  volume: number | null;
+  difficulty: number | null;
+  opportunity: number;
+  primary_position: number | null;
+  best_competitor: string | null;
+  best_competitor_position: number | null;
+  // Position per competitor site, null where it does not rank
+  competitor_positions: Record<string, number | null>;
+}
+
+export interface KeywordGapResult {
+  site: string;
+  competitors: string[];
+  summary: {
+    primary_keywords: number;
+    missing: number;
+    weaker: number;
+    unique: number;
+  };
+  missing: KeywordGapRow[];
+  weaker: KeywordGapRow[];
+  unique: KeywordGapRow[];
+  // Competitors whose ranking keywords could not be fetched, with the reason
+  errors?: Record<string, string>;
+}
+
+export interface KeywordOpportunityRow {
+  keyword: string;
+  position: number | null;
+  ranking_page: string | null;
+  volume: number | null;
+  difficulty: number | null;
+  organic_ctr: number | null;
+  priority: number | null;
+  // Ranks in positions 4-20
+  striking_distance: boolean;
+  // Monthly organic clicks at the current position and in the top 3
+  estimated_clicks: number;
+  estimated_clicks_top3: number;
+  traffic_uplift: number;
+  error?: string;
+}
+
+export interface PageOpportunity {
+  ranking_page: string;
+  keywords: number;
+  striking_distance_keywords: number;
+  traffic_uplift: number;
+  // The page's keywords with the most uplift
+  top_keywords: string[];
+}
+
+export interface KeywordOpportunitiesResult {
+  site: string;
+  // Ranking keywords looked at, and the ones in striking distance among them
+  keywords_analyzed: number;
+  striking_distance: number;
+  // Keywords whose metrics lookup failed; they are scored on ranking data
+  failed: number;
+  total_traffic_uplift: number;
+  pages: PageOpportunity[];
+  opportunities: KeywordOpportunityRow[];
+}
+
+export interface LinkIntersectRow {
+  root_domain: string;
+  domain_authority: number | null;
+  spam_score: number | null;
+  competitor_count: number;
+  // Competitors the domain links to
+  competitors: string[];
+}
+
+export interface LinkIntersectResult {
+  site: string;
+  competitors: string[];
+  // Prospects before filtering, and how many the filters removed
+  candidates: number;
+  filtered_out: number;
+  prospects: LinkIntersectRow[];
+  // Sites whose linking domains could not be fetched, with the reason
+  errors?: Record<string, string>;
+}
+
+export interface DiscoveredCompetitor {
+  domain: string;
+  // Where the candidate came from: the site's linking domains and/or the seeds
+  sources: ('linking_domain' | 'seed')[];
+  shared_keywords: number;
+  // Share of the site's ranking keywords the candidate also ranks for, in percent
+  keyword_overlap: number;
+  // The same share weighted by search volume, in percent; the ranking key
+  volume_overlap: number;
+  // Shared keywords the candidate ranks higher for than the site
+  outranking: number;
+  // Shared keywords with the most search volume
+  top_shared_keywords: string[];
+}
+
+export interface CompetitorDiscoveryResult {
+  site: string;
+  // Ranking keywords of the site the candidates were compared on
+  keywords_analyzed: number;
+  candidates_evaluated: number;
+  competitors: DiscoveredCompetitor[];
+  // The ranked domains, to pass on as competitor_sites
+  competitor_sites: string[];
+  // Candidates whose ranking keywords could not be fetched, with the reason
+  errors?: Record<string, string>;
+}
+
+// Point-in-time metrics of one tracked site; fields whose lookup failed are
+// null and the failures are listed in `errors`
+export interface SiteSnapshot {
+  domain_authority: number | null;
+  page_authority: number | null;
+  spam_score: number | null;
+  brand_authority: number | null;
+  // Rank position by keyword; null when the ranking keywords could not be
+  // fetched, so that a failed lookup does not read as every keyword lost
+  ranking_keywords: Record<string, number | null> | null;
+  errors?: string[];
+}
+
+export interface KeywordSnapshot {
+  volume: number | null;
+  difficulty: number | null;
+  organic_ctr: number | null;
+  priority: number | null;
+  error?: string;
+}
+
+export interface SnapshotData {
+  sites: Record<string, SiteSnapshot>;
+  keywords: Record<string, KeywordSnapshot>;
+}
+
+export interface Snapshot extends SnapshotData {
+  id: string;
+  taken_at: string;
+  account: string;
+  label?: string;
+}
+
+export interface KeywordClustersResult {
+  keywords: number;
+  // Keywords whose lookups failed; they are clustered on their text alone
+  failed: { keyword: string; error: string }[];
+  clusters: KeywordCluster[];
+}
+
+// Competitor analysis sections are fetched independently, so any one of them
+// may hold an error instead of data.
+export type FetchError = { error: string };
+export type Fetched<T> = T | FetchError;
+
+export function isFetchError(value: unknown): value is FetchError {
+  return typeof value === 'object' && value !== null && 'error' in value;
+}
+
+export interface SiteAnalysisData {
+  site_metrics: Fetched<SiteMetricsResult>;
+  brand_authority: Fetched<BrandAuthorityResult>;
+  ranking_keywords: Fetched<RankingKeywordsResult>;
+}
+
+export interface CompetitorData extends Partial<SiteAnalysisData> {
+  site: string;
+  error?: string;
+}
+
+export interface KeywordAnalysis {
+  keyword: string;
+  metrics: Fetched<KeywordMetricsResult>;
+  difficulty: Fetched<KeywordMetricsResult>;
+  volume: Fetched<KeywordMetricsResult>;
+  search_intent: Fetched<KeywordIntentResult>;
+}
+
+export const INSIGHT_SEVERITIES = ['info', 'warning', 'critical'] as const;
+export type InsightSeverity = typeof INSIGHT_SEVERITIES[number];
+
+// exists and missing take no thresholds: they match a metric that is known,
+// or known to be absent (e.g. no rank for the target keyword)
+export const INSIGHT_COMPARATORS = ['>=', '>', '<=', '<', '==', '!=', 'exists', 'missing'] as const;
+export type InsightComparator = typeof INSIGHT_COMPARATORS[number];
+
+// One matched insight rule and the data it matched on
+export interface InsightFinding {
+  id: string;
+  severity: InsightSeverity;
+  message: string;
+  evidence: {
+    metric: string;
+    value: number | string | null;
+    comparator: InsightComparator;
+    threshold?: number;
+    // The competitor a per-competitor rule matched on
+    site?: string;
+  };
+}
+
+export interface CompetitorAnalysis {
+  primary_site: string;
+  target_keyword: string;
+  locale: string;
+  analysis_timestamp: string;
+  primary_site_data: SiteAnalysisData;
+  competitor_data: CompetitorData[];
+  keyword_analysis?: KeywordAnalysis;
+  insights: InsightFinding[];
+  competitor_identification_guidance?: {
+    message: string;
+    suggestions: string[];
+    note: string;
+  };
+}
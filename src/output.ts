@@ -0,0 +1,125 @@
+import { TableColumn, toCsv, toMarkdownTable } from './table.js';
+
+// Renders any tool result in the output format the caller asked for:
+//   json     - pretty-printed JSON, the default
+//   compact  - one-line JSON without null and empty fields
+//   markdown - key figures as a list, plus a table per list of rows
+//   csv      - the result's main list of rows as CSV
+// Generic by design: nested objects become dotted column names, so new tools
+// get sensible tables without a renderer of their own.
+
+export const OUTPUT_FORMATS = ['json', 'markdown', 'csv', 'compact'] as const;
+export type OutputFormat = typeof OUTPUT_FORMATS[number];
+
+// Markdown tables beyond this many rows are cut, with a note saying so
+const MAX_MARKDOWN_ROWS = 100;
+
+type Row = Record<string, unknown>;
+
+interface RowList {
+  path: string;
+  rows: Row[];
+}
+
+function isPlainObject(value: unknown): value is Row {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isRowList(value: unknown): value is Row[] {
+  return Array.isArray(value) && value.length > 0 && value.every(isPlainObject);
+}
+
+// Drops null, undefined and empty containers, recursively
+export function prune(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(prune).filter(item => item !== undefined);
+  }
+  if (isPlainObject(value)) {
+    const entries = Object.entries(value)
+      .map(([key, v]) => [key, prune(v)] as const)
+      .filter(([, v]) => v !== undefined && !(Array.isArray(v) && v.length === 0) && !(isPlainObject(v) && Object.keys(v).length === 0));
+    return Object.fromEntries(entries);
+  }
+  return value ?? undefined;
+}
+
+// Scalars under dotted keys; lists of scalars are joined, lists of rows are
+// collected separately when `lists` is given and kept as JSON otherwise
+function flatten(value: Row, prefix = '', out: Row = {}, lists?: RowList[]): Row {
+  for (const [key, v] of Object.entries(value)) {
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (isPlainObject(v)) {
+      flatten(v, path, out, lists);
+    } else if (isRowList(v)) {
+      if (lists) {
+        lists.push({ path, rows: v });
+      } else {
+        out[path] = JSON.stringify(v);
+      }
+    } else if (Array.isArray(v)) {
+      out[path] = v.map(item => (typeof item === 'object' && item !== null ? JSON.stringify(item) : String(item))).join(', ');
+    } else {
+      out[path] = v;
+    }
+  }
+  return out;
+}
+
+function tableOf(rows: Row[]): { columns: TableColumn<Row>[]; rows: Row[] } {
+  const flat = rows.map(row => flatten(row));
+  const headers: string[] = [];
+  for (const row of flat) {
+    for (const key of Object.keys(row)) {
+      if (!headers.includes(key)) {
+        headers.push(key);
+      }
+    }
+  }
+  return { columns: headers.map(header => ({ header, value: row => row[header] })), rows: flat };
+}
+
+function splitResult(result: unknown): { figures: Row; lists: RowList[] } {
+  const lists: RowList[] = [];
+  if (isRowList(result)) {
+    return { figures: {}, lists: [{ path: 'results', rows: result }] };
+  }
+  const figures = isPlainObject(result) ? flatten(result, '', {}, lists) : { value: result };
+  return { figures, lists };
+}
+
+function toMarkdown(result: unknown): string {
+  const { figures, lists } = splitResult(result);
+  const parts: string[] = [];
+  const shown = Object.entries(figures).filter(([, value]) => value !== null && value !== undefined && value !== '');
+  if (shown.length > 0) {
+    parts.push(shown.map(([key, value]) => `- **${key}**: ${value}`).join('\n'));
+  }
+  for (const list of lists) {
+    const { columns, rows } = tableOf(list.rows.slice(0, MAX_MARKDOWN_ROWS));
+    const more = list.rows.length - rows.length;
+    parts.push(`### ${list.path} (${list.rows.length})\n\n${toMarkdownTable(columns, rows)}${more > 0 ? `\n\n_${more} more rows not shown_` : ''}`);
+  }
+  return parts.join('\n\n') || '_No data_';
+}
+
+// The longest list of rows is taken as the main one; a result without rows
+// becomes a single row of its figures
+function toCsvText(result: unknown): string {
+  const { figures, lists } = splitResult(result);
+  const main = lists.reduce<RowList | undefined>((longest, list) => (!longest || list.rows.length > longest.rows.length ? list : longest), undefined);
+  const { columns, rows } = tableOf(main ? main.rows : [figures]);
+  return toCsv(columns, rows);
+}
+
+export function renderResult(result: unknown, format: OutputFormat = 'json'): string {
+  switch (format) {
+    case 'json':
+      return JSON.stringify(result, null, 2);
+    case 'compact':
+      return JSON.stringify(prune(result) ?? null);
+    case 'markdown':
+      return toMarkdown(result);
+    case 'csv':
+      return toCsvText(result);
+  }
+}
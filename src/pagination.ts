@@ -0,0 +1,88 @@
+import { MozInvalidParamsError } from './errors.js';
+
+// Pagination helpers shared by the list endpoints. Links API methods page with
+// Moz's own next_token; V3 list methods page by offset, which is carried in the
+// same opaque token so callers never need to know which scheme applies.
+
+export interface Page<T> {
+  items: T[];
+  nextToken?: string;
+}
+
+export interface Pager<T> {
+  // Largest page the endpoint accepts in one request
+  maxPageSize: number;
+  // Fetches one page of at most `pageSize` items starting at `pageToken`
+  fetchPage(pageToken: string | undefined, pageSize: number): Promise<Page<T>>;
+}
+
+export interface PaginationOptions {
+  // Total number of rows to fetch across all pages
+  maxRows: number;
+  // Token returned by a previous call, to resume where it stopped
+  pageToken?: string;
+}
+
+export function encodeOffsetToken(offset: number): string {
+  return String(offset);
+}
+
+export function decodeOffsetToken(pageToken: string | undefined): number {
+  if (pageToken === undefined) {
+    return 0;
+  }
+  const offset = Number(pageToken);
+  if (!Number.isInteger(offset) || offset < 0) {
+    throw new MozInvalidParamsError(`Invalid page token: ${pageToken}`);
+  }
+  return offset;
+}
+
+// Builds the next token for an offset-paged response: a short page means the
+// list is exhausted.
+export function nextOffsetToken(offset: number, requested: number, received: number): string | undefined {
+  return received < requested ? undefined : encodeOffsetToken(offset + received);
+}
+
+export async function* paginate<T>(
+  pager: Pager<T>,
+  options: PaginationOptions
+): AsyncGenerator<T, string | undefined> {
+  let pageToken = options.pageToken;
+  let remaining = options.maxRows;
+
+  while (remaining > 0) {
+    const pageSize = Math.min(pager.maxPageSize, remaining);
+    const page = await pager.fetchPage(pageToken, pageSize);
+    const items = page.items.slice(0, pageSize);
+
+    for (const item of items) {
+      yield item;
+    }
+
+    remaining -= items.length;
+    pageToken = page.nextToken;
+    if (!pageToken || items.length === 0) {
+      return undefined;
+    }
+  }
+
+  return pageToken;
+}
+
+// Drains `paginate` into a single page whose token continues after the last row
+export async function collectPages<T>(
+  pager: Pager<T>,
+  options: PaginationOptions
+): Promise<Page<T>> {
+  const iterator = paginate(pager, options);
+  const items: T[] = [];
+
+  for (;;) {
+    const step = await iterator.next();
+    if (step.done) {
+      return { items, nextToken: step.value };
+    }
+    items.push(step.value);
+  }
+}
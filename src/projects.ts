@@ -0,0 +1,115 @@
+import { MozInvalidParamsError } from './errors.js';
+import { SerialWriter, readJsonFile, writeJsonFile } from './json-file.js';
+import { parseKeywordList } from './keywords.js';
+import { Device, Engine } from './moz-types.js';
+
+// Named projects: a primary site with its competitors, keyword groups and SERP
+// settings, kept in one JSON file. Tools given a `project` argument take the
+// inputs they were not passed explicitly from the project.
+
+export interface Project {
+  name: string;
+  site: string;
+  competitors: string[];
+  // Group name to keywords, e.g. { "pricing": ["seo tool pricing", ...] }
+  keyword_groups: Record<string, string[]>;
+  locale?: string;
+  device?: Device;
+  engine?: Engine;
+  // Moz account profile calls for the project run against
+  account?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export type ProjectFields = Omit<Project, 'name' | 'created_at' | 'updated_at'>;
+
+interface ProjectFile {
+  projects: Record<string, Project>;
+}
+
+const PROJECT_NAME = /^[\w.-]{1,64}$/;
+
+export class ProjectStore {
+  private writer = new SerialWriter();
+
+  constructor(private readonly file: string) {}
+
+  async list(): Promise<Project[]> {
+    const { projects } = await this.load();
+    return Object.values(projects).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async get(name: string): Promise<Project> {
+    const { projects } = await this.load();
+    if (!Object.hasOwn(projects, name)) {
+      throw new MozInvalidParamsError(`Unknown project "${name}"`);
+    }
+    return projects[name];
+  }
+
+  async create(name: string, fields: ProjectFields): Promise<Project> {
+    if (!PROJECT_NAME.test(name)) {
+      throw new MozInvalidParamsError('Invalid name: use up to 64 letters, digits, dots, dashes or underscores');
+    }
+    return this.writer.run(async () => {
+      const contents = await this.load();
+      if (Object.hasOwn(contents.projects, name)) {
+        throw new MozInvalidParamsError(`Project "${name}" already exists`);
+      }
+      const now = new Date().toISOString();
+      const project: Project = { name, ...fields, created_at: now, updated_at: now };
+      contents.projects[name] = project;
+      await writeJsonFile(this.file, contents, 2);
+      return project;
+    });
+  }
+
+  // Replaces the given fields and keeps the rest
+  async update(name: string, changes: Partial<ProjectFields>): Promise<Project> {
+    return this.writer.run(async () => {
+      const contents = await this.load();
+      if (!Object.hasOwn(contents.projects, name)) {
+        throw new MozInvalidParamsError(`Unknown project "${name}"`);
+      }
+      const existing = contents.projects[name];
+      const project: Project = { ...existing, ...changes, name, updated_at: new Date().toISOString() };
+      contents.projects[name] = project;
+      await writeJsonFile(this.file, contents, 2);
+      return project;
+    });
+  }
+
+  async delete(name: string): Promise<Project> {
+    return this.writer.run(async () => {
+      const contents = await this.load();
+      if (!Object.hasOwn(contents.projects, name)) {
+        throw new MozInvalidParamsError(`Unknown project "${name}"`);
+      }
+      const project = contents.projects[name];
+      delete contents.projects[name];
+      await writeJsonFile(this.file, contents, 2);
+      return project;
+    });
+  }
+
+  // Names are any of PROJECT_NAME, "__proto__" and "constructor" included, so
+  // projects live in an object without a prototype
+  private async load(): Promise<ProjectFile> {
+    const { projects } = await readJsonFile<ProjectFile>(this.file, { projects: {} });
+    return { projects: Object.assign(Object.create(null), projects) };
+  }
+}
+
+// Keywords of one group, or of all groups without duplicates
+export function projectKeywords(project: Project, group?: string): string[] {
+  if (group !== undefined) {
+    if (!Object.hasOwn(project.keyword_groups, group)) {
+      throw new MozInvalidParamsError(
+        `Project "${project.name}" has no keyword group "${group}" (groups: ${Object.keys(project.keyword_groups).join(', ') || 'none'})`
+      );
+    }
+    return project.keyword_groups[group];
+  }
+  return parseKeywordList(Object.values(project.keyword_groups).flat());
+}
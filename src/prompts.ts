@@ -0,0 +1,134 @@
+import { GetPromptResult, Prompt } from '@modelcontextprotocol/sdk/types.js';
+import { MozInvalidParamsError } from './errors.js';
+
+// Prompt templates for recurring SEO workflows. Each one spells out which
+// moz_* tools to chain and how to present the results, so every analyst runs
+// the same workflow.
+
+type PromptArgs = Record<string, string | undefined>;
+
+interface PromptTemplate extends Prompt {
+  render(args: PromptArgs): string;
+}
+
+// Prompt arguments are strings, so lists are comma separated
+function listArg(value: string | undefined): string[] {
+  return (value ?? '').split(',').map(item => item.trim()).filter(Boolean);
+}
+
+function projectNote(project: string | undefined): string {
+  return project
+    ? `\nPass project="${project}" to every tool call; it supplies the sites, keywords, locale and device, so leave those arguments out unless you need to override them.\n`
+    : '';
+}
+
+const PROMPTS: PromptTemplate[] = [
+  {
+    name: 'seo_keyword_brief',
+    description: 'Keyword research brief for a seed topic: suggestions, metrics, topic clusters and a content plan',
+    arguments: [
+      { name: 'seed', description: 'Seed keyword or topic', required: true },
+      { name: 'locale', description: 'Locale, e.g. en-US (defaults to en-US)' },
+      { name: 'site', description: 'Site the content is for, to skip keywords it already ranks well for' },
+    ],
+    render: ({ seed, locale, site }) => `Write a keyword research brief for "${seed}" in locale ${locale || 'en-US'}.
+
+Steps:
+1. Call moz_keyword_clusters with seed_keyword="${seed}", locale="${locale || 'en-US'}" and limit=100. It fetches suggestions, their metrics and search intent, and groups them into topic clusters.
+2. For the three clusters with the highest total_volume, call moz_keyword_metrics on each pillar_keyword to confirm volume, difficulty, organic CTR and priority.${site ? `
+3. Call moz_site_ranking_keywords with site="${site}" and limit=200. Mark keywords the site already ranks for in the top 10 as covered.` : ''}
+
+Present the brief as:
+- A one-paragraph summary of the topic's demand and competitiveness.
+- One section per cluster: the pillar keyword, primary intent, total volume, average difficulty, and a table of its keywords (keyword, volume, difficulty, intent)${site ? ', with covered keywords marked' : ''}.
+- Quick wins: keywords with difficulty under 40 and meaningful volume.
+- A content plan: one pillar page per major cluster and the supporting articles that should link to it.
+
+Use the numbers Moz returns; do not estimate missing metrics, say they are unavailable.`,
+  },
+  {
+    name: 'competitor_audit',
+    description: 'Technical competitor audit: authority comparison, keyword gaps and backlink gaps against named competitors',
+    arguments: [
+      { name: 'site', description: 'Your site domain', required: true },
+      { name: 'competitors', description: 'Comma-separated competitor domains', required: true },
+      { name: 'target_keyword', description: 'Main keyword or topic to compare on' },
+      { name: 'project', description: 'Saved project to take settings from' },
+    ],
+    render: ({ site, competitors, target_keyword, project }) => {
+      const rivals = listArg(competitors);
+      const sites = JSON.stringify([site, ...rivals]);
+      return `Audit ${site} against its competitors ${rivals.join(', ')}.
+${projectNote(project)}
+Steps:
+1. Call moz_site_metrics_multiple with sites=${sites} for Domain Authority, Page Authority, spam score and linking root domains.
+2. Call moz_site_brand_authority for each of ${sites}.
+3. Call moz_keyword_gap with site="${site}" and competitor_sites=${JSON.stringify(rivals)} to find keywords competitors rank for that ${site} misses or ranks lower on.${rivals.length >= 2 ? `
+4. Call moz_link_intersect with site="${site}" and competitor_sites=${JSON.stringify(rivals)} to find domains linking to several competitors but not to ${site}.` : `
+4. Call moz_linking_domains for ${rivals[0] ?? 'the competitor'} and compare with moz_linking_domains for ${site} to find domains that link only to the competitor.`}${target_keyword ? `
+5. Call moz_competitor_analysis with primary_site="${site}", competitor_sites=${JSON.stringify(rivals)} and target_keyword="${target_keyword}".` : ''}
+
+Present the audit as:
+- An authority table with one row per site: DA, PA, Brand Authority, spam score, linking root domains. Bold the best value in each column.
+- Where ${site} leads and where it trails, in two short bullet lists.
+- The top 15 missing and top 10 weaker keywords from the gap, by opportunity.
+- The top 15 link prospects with their authority and which competitors they link to.
+- A prioritized action list: at most five actions, each tied to a number above.
+
+Flag any tool error or missing data instead of filling it in.`;
+    },
+  },
+  {
+    name: 'link_building_prospecting',
+    description: 'Link-building prospect list: domains that link to competitors but not to you, filtered for quality',
+    arguments: [
+      { name: 'site', description: 'Your site domain', required: true },
+      { name: 'competitors', description: 'Comma-separated competitor domains (at least two)', required: true },
+      { name: 'min_domain_authority', description: 'Lowest Domain Authority worth contacting (defaults to 20)' },
+      { name: 'project', description: 'Saved project to take settings from' },
+    ],
+    render: ({ site, competitors, min_domain_authority, project }) => {
+      const rivals = listArg(competitors);
+      if (rivals.length < 2) {
+        throw new MozInvalidParamsError('Invalid competitors: link intersect needs at least two competitor domains');
+      }
+      return `Build a link-building prospect list for ${site} from the backlinks of ${rivals.join(', ')}.
+${projectNote(project)}
+Steps:
+1. Call moz_link_intersect with site="${site}", competitor_sites=${JSON.stringify(rivals)}, min_domain_authority=${Number(min_domain_authority) || 20}, max_spam_score=30 and top=50.
+2. For the ten strongest prospects, call moz_links with target set to the competitor each one links to and look for the linking page, so you can see what kind of content earned the link.
+3. Call moz_anchor_text for ${rivals[0]} to see how competitors are usually referenced.
+
+Present the results as:
+- A prospect table: domain, Domain Authority, spam score, competitors linked, likely link type (resource page, guest post, review, directory, news).
+- For the top ten, a one-line outreach angle based on the page that links to the competitor.
+- Domains to avoid: anything with high spam score or that looks like a link farm, with the reason.
+
+Do not invent contact details or linking pages that the tools did not return.`;
+    },
+  },
+];
+
+export function listPrompts(): Prompt[] {
+  return PROMPTS.map(({ render, ...prompt }) => prompt);
+}
+
+export function getPrompt(name: string, args: PromptArgs = {}): GetPromptResult {
+  const prompt = PROMPTS.find(candidate => candidate.name === name);
+  if (!prompt) {
+    throw new MozInvalidParamsError(`Unknown prompt "${name}"`);
+  }
+  const missing = (prompt.arguments ?? []).filter(arg => arg.required && !args[arg.name]?.trim());
+  if (missing.length > 0) {
+    throw new MozInvalidParamsError(`Missing required arguments: ${missing.map(arg => arg.name).join(', ')}`);
+  }
+  return {
+    description: prompt.description,
+    messages: [
+      {
+        role: 'user',
+        content: { type: 'text', text: prompt.render(args) },
+      },
+    ],
+  };
+}
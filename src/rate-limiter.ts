@@ -0,0 +1,45 @@
+// Token bucket limiting how fast requests are sent to Moz. A single bucket can
+// be shared by several clients so they draw from the same allowance.
+export class TokenBucket {
+  private tokens: number;
+  private lastRefill: number;
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly ratePerSecond: number,
+    private readonly capacity: number = Math.max(1, Math.ceil(ratePerSecond))
+  ) {
+    this.tokens = capacity;
+    this.lastRefill = Date.now();
+  }
+
+  // Resolves once a token is available. Waiters are served in arrival order.
+  acquire(): Promise<void> {
+    const turn = this.queue.then(() => this.take());
+    this.queue = turn.catch(() => undefined);
+    return turn;
+  }
+
+  private async take(): Promise<void> {
+    for (;;) {
+      this.refill();
+      if (this.tokens >= 1) {
+        this.tokens -= 1;
+        return;
+      }
+      const waitMs = Math.ceil(((1 - this.tokens) / this.ratePerSecond) * 1000);
+      await sleep(waitMs);
+    }
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    const elapsed = (now - this.lastRefill) / 1000;
+    this.tokens = Math.min(this.capacity, this.tokens + elapsed * this.ratePerSecond);
+    this.lastRefill = now;
+  }
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
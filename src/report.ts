@@ -0,0 +1,183 @@
+import { normalizeKeyword } from './keywords.js';
+import { CompetitorAnalysis, CompetitorData, Fetched, RankingKeyword, isFetchError } from './moz-types.js';
+import { TableColumn, toMarkdownTable } from './table.js';
+
+// Self-contained competitor analysis reports in Markdown or HTML: a comparison
+// table of the sites, the target keyword's metrics, keyword overlap with the
+// primary site and the insights list. Both formats render the same sections.
+
+export const REPORT_FORMATS = ['markdown', 'html'] as const;
+export type ReportFormat = typeof REPORT_FORMATS[number];
+
+type Cell = string | number | null;
+
+interface ReportSection {
+  heading: string;
+  text?: string;
+  table?: { columns: TableColumn<Cell[]>[]; rows: Cell[][] };
+  list?: string[];
+}
+
+function fetched<T>(value: Fetched<T> | undefined): T | undefined {
+  return value && !isFetchError(value) ? value : undefined;
+}
+
+function rankingsOf(site: Omit<CompetitorData, 'site'>): RankingKeyword[] {
+  return fetched(site.ranking_keywords)?.ranking_keywords ?? [];
+}
+
+function table(headers: string[], rows: Cell[][]): ReportSection['table'] {
+  return { columns: headers.map((header, i) => ({ header, value: row => row[i] })), rows };
+}
+
+function sections(analysis: CompetitorAnalysis): ReportSection[] {
+  const sites: CompetitorData[] = [
+    { site: analysis.primary_site, ...analysis.primary_site_data },
+    ...analysis.competitor_data,
+  ];
+  const target = normalizeKeyword(analysis.target_keyword);
+  const result: ReportSection[] = [];
+
+  result.push({
+    heading: 'Site comparison',
+    table: table(
+      ['Site', 'DA', 'PA', 'Spam score', 'Linking root domains', 'Brand Authority', 'Ranking keywords', `Rank for "${analysis.target_keyword}"`],
+      sites.map(site => {
+        const metrics = fetched(site.site_metrics)?.site_metrics;
+        const rankings = rankingsOf(site);
+        const targetRank = rankings.find(row => normalizeKeyword(row.keyword) === target)?.rank_position;
+        return [
+          site.site === analysis.primary_site ? `${site.site} (primary)` : site.site,
+          metrics?.domain_authority ?? null,
+          metrics?.page_authority ?? null,
+          metrics?.spam_score ?? null,
+          metrics?.root_domains_to_root_domain ?? null,
+          fetched(site.brand_authority)?.brand_authority ?? null,
+          site.ranking_keywords && !isFetchError(site.ranking_keywords) ? rankings.length : null,
+          targetRank ?? null,
+        ];
+      })
+    ),
+  });
+
+  const keyword = analysis.keyword_analysis;
+  if (keyword) {
+    const metrics = fetched(keyword.metrics)?.keyword_metrics;
+    const intent = fetched(keyword.search_intent)?.keyword_intent.primary_intent?.[0]?.label;
+    result.push({
+      heading: `Target keyword: ${keyword.keyword}`,
+      table: table(
+        ['Volume', 'Difficulty', 'Organic CTR', 'Priority', 'Intent'],
+        [[
+          metrics?.volume ?? null,
+          metrics?.difficulty ?? null,
+          metrics?.organic_ctr ?? null,
+          metrics?.priority ?? null,
+          intent ?? null,
+        ]]
+      ),
+    });
+  }
+
+  // How much of each competitor's ranking keyword set the primary site shares
+  const primaryKeywords = new Set(rankingsOf(analysis.primary_site_data).map(row => normalizeKeyword(row.keyword)));
+  const overlapRows = analysis.competitor_data
+    .filter(competitor => competitor.ranking_keywords && !isFetchError(competitor.ranking_keywords))
+    .map((competitor): Cell[] => {
+      const keywords = new Set(rankingsOf(competitor).map(row => normalizeKeyword(row.keyword)));
+      const shared = [...keywords].filter(k => primaryKeywords.has(k)).length;
+      return [competitor.site, keywords.size, shared, keywords.size - shared, keywords.size > 0 ? `${Math.round((shared / keywords.size) * 100)}%` : null];
+    });
+  if (overlapRows.length > 0) {
+    result.push({
+      heading: 'Keyword overlap',
+      text: `Among the top ranking keywords fetched per site, compared with ${analysis.primary_site}.`,
+      table: table(['Competitor', 'Ranking keywords', 'Shared', 'Only competitor', 'Overlap'], overlapRows),
+    });
+  }
+
+  result.push({
+    heading: 'Insights',
+    list: analysis.insights.length > 0
+      ? analysis.insights.map(finding => finding.severity === 'info' ? finding.message : `${finding.severity.toUpperCase()}: ${finding.message}`)
+      : ['No insights could be derived from the available data.'],
+  });
+
+  const errors = sites.flatMap(site => [
+    ...(site.error ? [`${site.site}: ${site.error}`] : []),
+    ...(['site_metrics', 'brand_authority', 'ranking_keywords'] as const)
+      .filter(key => isFetchError(site[key]))
+      .map(key => `${site.site} ${key.replace(/_/g, ' ')}: ${(site[key] as { error: string }).error}`),
+  ]);
+  if (errors.length > 0) {
+    result.push({ heading: 'Missing data', list: errors });
+  }
+  return result;
+}
+
+function title(analysis: CompetitorAnalysis): string {
+  return `Competitor analysis: ${analysis.primary_site}`;
+}
+
+function subtitle(analysis: CompetitorAnalysis): string {
+  return `Target keyword "${analysis.target_keyword}", locale ${analysis.locale}, generated ${analysis.analysis_timestamp}`;
+}
+
+function toMarkdown(analysis: CompetitorAnalysis): string {
+  const parts = [`# ${title(analysis)}`, `_${subtitle(analysis)}_`];
+  for (const section of sections(analysis)) {
+    parts.push(`## ${section.heading}`);
+    if (section.text) parts.push(section.text);
+    if (section.table) parts.push(toMarkdownTable(section.table.columns, section.table.rows));
+    if (section.list) parts.push(section.list.map(item => `- ${item}`).join('\n'));
+  }
+  return `${parts.join('\n\n')}\n`;
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+const HTML_STYLE = `body{font-family:system-ui,sans-serif;max-width:960px;margin:2rem auto;padding:0 1rem;color:#222}
+table{border-collapse:collapse;width:100%;margin:1rem 0}th,td{border:1px solid #ddd;padding:.4rem .6rem;text-align:left}
+th{background:#f4f4f4}td.num{text-align:right}.meta{color:#666}`;
+
+function toHtml(analysis: CompetitorAnalysis): string {
+  const body: string[] = [`<h1>${escapeHtml(title(analysis))}</h1>`, `<p class="meta">${escapeHtml(subtitle(analysis))}</p>`];
+  for (const section of sections(analysis)) {
+    body.push(`<h2>${escapeHtml(section.heading)}</h2>`);
+    if (section.text) body.push(`<p>${escapeHtml(section.text)}</p>`);
+    if (section.table) {
+      const head = section.table.columns.map(column => `<th>${escapeHtml(column.header)}</th>`).join('');
+      const rows = section.table.rows.map(row => `<tr>${section.table!.columns.map(column => {
+        const value = column.value(row) as Cell;
+        return `<td${typeof value === 'number' ? ' class="num"' : ''}>${escapeHtml(value === null ? '–' : String(value))}</td>`;
+      }).join('')}</tr>`);
+      body.push(`<table><thead><tr>${head}</tr></thead><tbody>${rows.join('')}</tbody></table>`);
+    }
+    if (section.list) body.push(`<ul>${section.list.map(item => `<li>${escapeHtml(item)}</li>`).join('')}</ul>`);
+  }
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title(analysis))}</title>
+<style>${HTML_STYLE}</style>
+</head>
+<body>
+${body.join('\n')}
+</body>
+</html>
+`;
+}
+
+export function renderCompetitorReport(analysis: CompetitorAnalysis, format: ReportFormat): string {
+  return format === 'html' ? toHtml(analysis) : toMarkdown(analysis);
+}
+
+// File name for a saved report, e.g. competitor-example.com-2024-05-01T120000.md
+export function reportFileName(analysis: CompetitorAnalysis, format: ReportFormat): string {
+  const site = analysis.primary_site.replace(/[^\w.-]+/g, '_');
+  const stamp = analysis.analysis_timestamp.replace(/[:]/g, '').replace(/\.\d+Z$/, '');
+  return `competitor-${site}-${stamp}.${format === 'html' ? 'html' : 'md'}`;
+}
@@ -0,0 +1,81 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { MozInvalidParamsError } from './errors.js';
+
+// Saved report documents: the files of one output directory, exposed to
+// clients by name.
+
+export interface ReportInfo {
+  name: string;
+  mime_type: string;
+  size: number;
+  modified_at: string;
+}
+
+const MIME_TYPES: Record<string, string> = {
+  '.md': 'text/markdown',
+  '.html': 'text/html',
+  '.csv': 'text/csv',
+  '.json': 'application/json',
+  '.txt': 'text/plain',
+};
+
+export function reportMimeType(name: string): string | undefined {
+  return MIME_TYPES[path.extname(name).toLowerCase()];
+}
+
+export class ReportStore {
+  constructor(readonly directory: string) {}
+
+  // Newest first; files of other types are ignored
+  async list(): Promise<ReportInfo[]> {
+    let names: string[];
+    try {
+      names = await fs.readdir(this.directory);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const reports: ReportInfo[] = [];
+    for (const name of names) {
+      const mimeType = reportMimeType(name);
+      if (!mimeType) {
+        continue;
+      }
+      const stats = await fs.stat(path.join(this.directory, name));
+      if (stats.isFile()) {
+        reports.push({ name, mime_type: mimeType, size: stats.size, modified_at: stats.mtime.toISOString() });
+      }
+    }
+    return reports.sort((a, b) => b.modified_at.localeCompare(a.modified_at));
+  }
+
+  async save(name: string, text: string): Promise<ReportInfo> {
+    const mimeType = reportMimeType(name);
+    if (!mimeType || name !== path.basename(name) || name.startsWith('.')) {
+      throw new MozInvalidParamsError(`Invalid report name "${name}"`);
+    }
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(path.join(this.directory, name), text);
+    return { name, mime_type: mimeType, size: Buffer.byteLength(text), modified_at: new Date().toISOString() };
+  }
+
+  async read(name: string): Promise<{ text: string; mimeType: string }> {
+    const mimeType = reportMimeType(name);
+    // Plain file names only, so a name cannot reach outside the directory
+    if (!mimeType || name !== path.basename(name) || name.startsWith('.')) {
+      throw new MozInvalidParamsError(`Unknown report "${name}"`);
+    }
+    try {
+      return { text: await fs.readFile(path.join(this.directory, name), 'utf-8'), mimeType };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        throw new MozInvalidParamsError(`Unknown report "${name}"`);
+      }
+      throw error;
+    }
+  }
+}
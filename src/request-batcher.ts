@@ -0,0 +1,67 @@
+import { MozUpstreamError } from './errors.js';
+
+// Collects JSON-RPC requests made within a short window and sends them as one
+// batch array. Each caller gets the response carrying its own request id.
+
+export interface BatchOptions {
+  // How long the first request of a batch waits for others to join
+  windowMs: number;
+  // Requests per batch; a full batch is sent right away
+  maxSize: number;
+}
+
+interface Queued<Request, Response> {
+  request: Request;
+  resolve: (response: Response) => void;
+  reject: (error: unknown) => void;
+}
+
+export class RequestBatcher<Request extends { id: string }, Response extends { id: string | null }> {
+  private queue: Queued<Request, Response>[] = [];
+  private timer?: NodeJS.Timeout;
+
+  constructor(
+    private readonly options: BatchOptions,
+    private readonly send: (requests: Request[]) => Promise<Response[]>
+  ) {}
+
+  enqueue(request: Request): Promise<Response> {
+    return new Promise((resolve, reject) => {
+      this.queue.push({ request, resolve, reject });
+      if (this.queue.length >= this.options.maxSize) {
+        this.flush();
+      } else if (!this.timer) {
+        this.timer = setTimeout(() => this.flush(), this.options.windowMs);
+      }
+    });
+  }
+
+  private flush(): void {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+    const batch = this.queue;
+    this.queue = [];
+    if (batch.length === 0) {
+      return;
+    }
+
+    this.send(batch.map(queued => queued.request)).then(
+      (responses) => {
+        const byId = new Map(responses.map(response => [response.id, response]));
+        for (const queued of batch) {
+          const response = byId.get(queued.request.id);
+          if (response) {
+            queued.resolve(response);
+          } else {
+            queued.reject(new MozUpstreamError(`Batch response has no entry for request ${queued.request.id}`, { retryable: true }));
+          }
+        }
+      },
+      (error) => {
+        for (const queued of batch) {
+          queued.reject(error);
+        }
+      }
+    );
+  }
+}
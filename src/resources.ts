@@ -0,0 +1,139 @@
+import { MozInvalidParamsError } from './errors.js';
+import { normalizeKeyword } from './keywords.js';
+import { locale } from './tool-args.js';
+
+// URIs of the MCP resources the server exposes:
+//
+//   moz://quota                         account quota
+//   moz://site/{domain}/metrics         site metrics
+//   moz://keyword/{locale}/{keyword}    keyword metrics
+//   moz://project/{name}                saved project
+//   moz://snapshot/{id}                 recorded snapshot
+//   moz://report/{name}                 saved report document
+
+export type ResourceRef =
+  | { kind: 'quota' }
+  | { kind: 'site'; domain: string }
+  | { kind: 'keyword'; locale: string; keyword: string }
+  | { kind: 'project'; name: string }
+  | { kind: 'snapshot'; id: string }
+  | { kind: 'report'; name: string };
+
+export const QUOTA_URI = 'moz://quota';
+
+export const RESOURCE_TEMPLATES = [
+  {
+    uriTemplate: 'moz://site/{domain}/metrics',
+    name: 'Site metrics',
+    description: 'Domain Authority, Page Authority, spam score and link counts of a site',
+    mimeType: 'application/json',
+  },
+  {
+    uriTemplate: 'moz://keyword/{locale}/{keyword}',
+    name: 'Keyword metrics',
+    description: 'Volume, difficulty, organic CTR and priority of a keyword in a locale, e.g. moz://keyword/en-US/seo%20tools',
+    mimeType: 'application/json',
+  },
+  {
+    uriTemplate: 'moz://project/{name}',
+    name: 'Project',
+    description: 'A saved project: primary site, competitors, keyword groups and SERP settings',
+    mimeType: 'application/json',
+  },
+  {
+    uriTemplate: 'moz://snapshot/{id}',
+    name: 'Snapshot',
+    description: 'A recorded snapshot of site and keyword metrics',
+    mimeType: 'application/json',
+  },
+  {
+    uriTemplate: 'moz://report/{name}',
+    name: 'Report',
+    description: 'A saved report document',
+  },
+];
+
+export function resourceUri(ref: ResourceRef): string {
+  switch (ref.kind) {
+    case 'quota':
+      return QUOTA_URI;
+    case 'site':
+      return `moz://site/${encodeURIComponent(ref.domain)}/metrics`;
+    case 'keyword':
+      return `moz://keyword/${encodeURIComponent(ref.locale)}/${encodeURIComponent(ref.keyword)}`;
+    case 'project':
+      return `moz://project/${encodeURIComponent(ref.name)}`;
+    case 'snapshot':
+      return `moz://snapshot/${encodeURIComponent(ref.id)}`;
+    case 'report':
+      return `moz://report/${encodeURIComponent(ref.name)}`;
+  }
+}
+
+export function parseResourceUri(uri: string): ResourceRef {
+  const match = /^moz:\/\/([^/]+)((?:\/[^/]*)*)$/.exec(uri);
+  const segments = match?.[2].split('/').slice(1).map(segment => {
+    try {
+      return decodeURIComponent(segment);
+    } catch {
+      return '';
+    }
+  }) ?? [];
+  if (segments.some(segment => !segment)) {
+    throw new MozInvalidParamsError(`Unknown resource "${uri}"`);
+  }
+
+  switch (match?.[1]) {
+    case 'quota':
+      if (segments.length === 0) {
+        return { kind: 'quota' };
+      }
+      break;
+    case 'site':
+      if (segments.length === 2 && segments[1] === 'metrics') {
+        return { kind: 'site', domain: segments[0] };
+      }
+      break;
+    case 'keyword':
+      if (segments.length === 2 && normalizeKeyword(segments[1])) {
+        // Validated like the locale argument of the keyword tools
+        const parsed = locale().safeParse(segments[0]);
+        if (!parsed.success) {
+          throw new MozInvalidParamsError(`Invalid locale in resource "${uri}": ${parsed.error.issues[0].message}`);
+        }
+        return { kind: 'keyword', locale: parsed.data, keyword: normalizeKeyword(segments[1]) };
+      }
+      break;
+    case 'project':
+    case 'snapshot':
+    case 'report':
+      if (segments.length === 1) {
+        return match[1] === 'snapshot'
+          ? { kind: 'snapshot', id: segments[0] }
+          : { kind: match[1], name: segments[0] };
+      }
+      break;
+  }
+  throw new MozInvalidParamsError(`Unknown resource "${uri}"`);
+}
+
+// Resources whose data a live Moz response just refreshed
+export function refreshedResources(method: string, params: unknown): string[] {
+  const data = (params as { data?: Record<string, unknown> } | undefined)?.data;
+  switch (method) {
+    case 'quota.lookup':
+      return [QUOTA_URI];
+    case 'data.site.metrics.fetch': {
+      const domain = (data?.site_query as { query?: unknown } | undefined)?.query;
+      return typeof domain === 'string' ? [resourceUri({ kind: 'site', domain })] : [];
+    }
+    case 'data.keyword.metrics.fetch': {
+      const query = data?.serp_query as { keyword?: unknown; locale?: unknown } | undefined;
+      return typeof query?.keyword === 'string' && typeof query.locale === 'string'
+        ? [resourceUri({ kind: 'keyword', locale: query.locale, keyword: normalizeKeyword(query.keyword) })]
+        : [];
+    }
+    default:
+      return [];
+  }
+}
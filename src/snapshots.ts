@@ -0,0 +1,223 @@
+import { randomUUID } from 'crypto';
+import { MozInvalidParamsError } from './errors.js';
+import { SerialWriter, readJsonFile, writeJsonFile } from './json-file.js';
+import { KeywordSnapshot, SiteSnapshot, Snapshot } from './moz-types.js';
+
+// Historical snapshots of tracked site and keyword metrics, kept in one JSON
+// file so trends survive restarts. Each snapshot belongs to the Moz account it
+// was taken with.
+
+export const SITE_SERIES_METRICS = ['domain_authority', 'page_authority', 'spam_score', 'brand_authority'] as const;
+export const KEYWORD_SERIES_METRICS = ['volume', 'difficulty', 'organic_ctr', 'priority'] as const;
+
+interface SnapshotFile {
+  snapshots: Snapshot[];
+}
+
+export class SnapshotStore {
+  // Concurrent snapshots must not overwrite each other
+  private writer = new SerialWriter();
+
+  constructor(private readonly file: string) {}
+
+  // Oldest first
+  async list(account: string): Promise<Snapshot[]> {
+    const { snapshots } = await this.load();
+    return snapshots
+      .filter(snapshot => snapshot.account === account)
+      .sort((a, b) => a.taken_at.localeCompare(b.taken_at));
+  }
+
+  async get(account: string, id: string): Promise<Snapshot> {
+    const snapshot = (await this.list(account)).find(candidate => candidate.id === id);
+    if (!snapshot) {
+      throw new MozInvalidParamsError(`Unknown snapshot "${id}"`);
+    }
+    return snapshot;
+  }
+
+  async add(data: Omit<Snapshot, 'id' | 'taken_at'>): Promise<Snapshot> {
+    const snapshot: Snapshot = { id: randomUUID().slice(0, 8), taken_at: new Date().toISOString(), ...data };
+    await this.writer.run(async () => {
+      const contents = await this.load();
+      contents.snapshots.push(snapshot);
+      await writeJsonFile(this.file, contents);
+    });
+    return snapshot;
+  }
+
+  private load(): Promise<SnapshotFile> {
+    return readJsonFile<SnapshotFile>(this.file, { snapshots: [] });
+  }
+}
+
+// Snapshots taken within [since, until], both optional ISO dates
+export function snapshotsBetween(snapshots: Snapshot[], since?: string, until?: string): Snapshot[] {
+  // A bare date as `until` covers that whole day
+  const end = until && /^\d{4}-\d{2}-\d{2}$/.test(until) ? `${until}T23:59:59.999Z` : until;
+  return snapshots.filter(snapshot =>
+    (!since || snapshot.taken_at >= since) && (!end || snapshot.taken_at <= end)
+  );
+}
+
+export interface SeriesPoint {
+  snapshot_id: string;
+  taken_at: string;
+  [metric: string]: string | number | null;
+}
+
+// Why a site's ranking keywords cannot be compared, when a snapshot lacks them
+function missingRankings(snapshot: Snapshot, site: SiteSnapshot): string {
+  const error = site.errors?.find(message => message.startsWith('ranking keywords: '));
+  return `ranking keywords were not fetched in snapshot ${snapshot.id}${error ? ` (${error.slice('ranking keywords: '.length)})` : ''}`;
+}
+
+// Values of one site, one keyword or one site's rank for a keyword over time.
+// Snapshots that did not track the subject are skipped; where a site's ranking
+// keywords are missing, the point has no rank data and says why in `error`.
+export function timeSeries(snapshots: Snapshot[], subject: { site?: string; keyword?: string }): SeriesPoint[] {
+  const points: SeriesPoint[] = [];
+  for (const snapshot of snapshots) {
+    const point: SeriesPoint = { snapshot_id: snapshot.id, taken_at: snapshot.taken_at };
+
+    if (subject.site !== undefined) {
+      if (!Object.hasOwn(snapshot.sites, subject.site)) {
+        continue;
+      }
+      const site = snapshot.sites[subject.site];
+      const rankings = site.ranking_keywords;
+      if (subject.keyword !== undefined) {
+        point.rank_position = rankings && Object.hasOwn(rankings, subject.keyword) ? rankings[subject.keyword] : null;
+      } else {
+        for (const metric of SITE_SERIES_METRICS) {
+          point[metric] = site[metric];
+        }
+        point.ranking_keywords = rankings ? Object.keys(rankings).length : null;
+      }
+      if (!rankings) {
+        point.error = missingRankings(snapshot, site);
+      }
+    } else if (subject.keyword !== undefined) {
+      if (!Object.hasOwn(snapshot.keywords, subject.keyword)) {
+        continue;
+      }
+      const keyword = snapshot.keywords[subject.keyword];
+      for (const metric of KEYWORD_SERIES_METRICS) {
+        point[metric] = keyword[metric];
+      }
+    }
+    points.push(point);
+  }
+  return points;
+}
+
+export interface MetricDelta {
+  from: number | null;
+  to: number | null;
+  change: number | null;
+}
+
+export interface RankChange {
+  keyword: string;
+  from: number | null;
+  to: number | null;
+  // Positive means the site moved up the results
+  change: number | null;
+}
+
+export interface SiteDiff {
+  metrics: Record<string, MetricDelta>;
+  gained: RankChange[];
+  lost: RankChange[];
+  improved: RankChange[];
+  declined: RankChange[];
+  // Set, with the rank changes left empty, when either snapshot lacks the
+  // site's ranking keywords
+  rankings_unavailable?: string;
+}
+
+export interface SnapshotDiff {
+  from: { id: string; taken_at: string };
+  to: { id: string; taken_at: string };
+  sites: Record<string, SiteDiff>;
+  keywords: Record<string, Record<string, MetricDelta>>;
+}
+
+function delta(from: number | null | undefined, to: number | null | undefined): MetricDelta {
+  const a = from ?? null;
+  const b = to ?? null;
+  return { from: a, to: b, change: a !== null && b !== null ? Math.round((b - a) * 100) / 100 : null };
+}
+
+function diffSite(fromSnapshot: Snapshot, toSnapshot: Snapshot, site: string): SiteDiff {
+  const from = fromSnapshot.sites[site];
+  const to = toSnapshot.sites[site];
+  const diff: SiteDiff = {
+    metrics: Object.fromEntries(SITE_SERIES_METRICS.map(metric => [metric, delta(from[metric], to[metric])])),
+    gained: [],
+    lost: [],
+    improved: [],
+    declined: [],
+  };
+
+  const fromRankings = from.ranking_keywords;
+  const toRankings = to.ranking_keywords;
+  if (!fromRankings || !toRankings) {
+    diff.rankings_unavailable = !fromRankings ? missingRankings(fromSnapshot, from) : missingRankings(toSnapshot, to);
+    return diff;
+  }
+
+  const keywords = new Set([...Object.keys(fromRankings), ...Object.keys(toRankings)]);
+  for (const keyword of keywords) {
+    const before = Object.hasOwn(fromRankings, keyword) ? fromRankings[keyword] : undefined;
+    const after = Object.hasOwn(toRankings, keyword) ? toRankings[keyword] : undefined;
+    const change = before != null && after != null ? before - after : null;
+    const row: RankChange = { keyword, from: before ?? null, to: after ?? null, change };
+
+    if (before === undefined) {
+      diff.gained.push(row);
+    } else if (after === undefined) {
+      diff.lost.push(row);
+    } else if (change !== null && change > 0) {
+      diff.improved.push(row);
+    } else if (change !== null && change < 0) {
+      diff.declined.push(row);
+    }
+  }
+
+  const byPosition = (a: RankChange, b: RankChange) => (a.to ?? a.from ?? Infinity) - (b.to ?? b.from ?? Infinity);
+  diff.gained.sort(byPosition);
+  diff.lost.sort(byPosition);
+  diff.improved.sort((a, b) => (b.change ?? 0) - (a.change ?? 0));
+  diff.declined.sort((a, b) => (a.change ?? 0) - (b.change ?? 0));
+  return diff;
+}
+
+function diffKeyword(from: KeywordSnapshot, to: KeywordSnapshot): Record<string, MetricDelta> {
+  return Object.fromEntries(KEYWORD_SERIES_METRICS.map(metric => [metric, delta(from[metric], to[metric])]));
+}
+
+// Changes between two snapshots for the sites and keywords both of them track.
+// Keywords are arbitrary text, so the results are keyed without a prototype.
+export function diffSnapshots(from: Snapshot, to: Snapshot): SnapshotDiff {
+  const sites: Record<string, SiteDiff> = Object.create(null);
+  for (const site of Object.keys(to.sites)) {
+    if (Object.hasOwn(from.sites, site)) {
+      sites[site] = diffSite(from, to, site);
+    }
+  }
+
+  const keywords: Record<string, Record<string, MetricDelta>> = Object.create(null);
+  for (const [keyword, after] of Object.entries(to.keywords)) {
+    if (Object.hasOwn(from.keywords, keyword)) {
+      keywords[keyword] = diffKeyword(from.keywords[keyword], after);
+    }
+  }
+
+  return {
+    from: { id: from.id, taken_at: from.taken_at },
+    to: { id: to.id, taken_at: to.taken_at },
+    sites,
+    keywords,
+  };
+}
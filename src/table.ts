@@ -0,0 +1,41 @@
+// Renders result rows as CSV or a Markdown table for export
+
+export const TABLE_FORMATS = ['json', 'csv', 'markdown'] as const;
+export type TableFormat = typeof TABLE_FORMATS[number];
+
+export interface TableColumn<T> {
+  header: string;
+  value: (row: T) => unknown;
+}
+
+function cellText(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+// RFC 4180 quoting: fields with commas, quotes or line breaks are quoted
+function csvField(text: string): string {
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv<T>(columns: TableColumn<T>[], rows: T[]): string {
+  const lines = [columns.map(column => csvField(column.header)).join(',')];
+  for (const row of rows) {
+    lines.push(columns.map(column => csvField(cellText(column.value(row)))).join(','));
+  }
+  return lines.join('\n');
+}
+
+export function toMarkdownTable<T>(columns: TableColumn<T>[], rows: T[]): string {
+  const cell = (text: string) => text.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+  const lines = [
+    `| ${columns.map(column => cell(column.header)).join(' | ')} |`,
+    `| ${columns.map(() => '---').join(' | ')} |`,
+  ];
+  for (const row of rows) {
+    lines.push(`| ${columns.map(column => cell(cellText(column.value(row)))).join(' | ')} |`);
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,103 @@
+import { z } from 'zod';
+import { DEVICES, ENGINES, LOCALES } from './moz-types.js';
+
+// Argument schemas tool declarations are built from. Values that arrive as
+// strings are coerced where the intent is unambiguous ("50" for a number,
+// "false" for a boolean, "a.com, b.com" for a list, "en_us" for a locale), and
+// every failure message says what was expected.
+
+// Upper bound on rows a single list tool call may fetch across pages
+export const MAX_ROW_BUDGET = 1000;
+
+function numberFromString(value: unknown): unknown {
+  if (typeof value === 'string' && value.trim() !== '' && !Number.isNaN(Number(value))) {
+    return Number(value);
+  }
+  return value;
+}
+
+export function integer(min: number, max: number) {
+  const message = `expected an integer between ${min} and ${max}`;
+  return z.preprocess(
+    numberFromString,
+    z.number({ invalid_type_error: message }).int(message).min(min, message).max(max, message)
+  );
+}
+
+export function decimal(min: number, max: number) {
+  const message = `expected a number between ${min} and ${max}`;
+  return z.preprocess(
+    numberFromString,
+    z.number({ invalid_type_error: message }).min(min, message).max(max, message)
+  );
+}
+
+// Rows to fetch or return, 1 to max
+export function limit(max = MAX_ROW_BUDGET) {
+  return integer(1, max);
+}
+
+export function flag() {
+  return z.preprocess(
+    value => (value === 'true' ? true : value === 'false' ? false : value),
+    z.boolean({ invalid_type_error: 'expected true or false' })
+  );
+}
+
+export function text() {
+  return z.string({ invalid_type_error: 'expected a string' }).trim().min(1, 'expected a non-empty string');
+}
+
+// A list of strings; a single string is split on commas and line breaks
+export function textList(bounds: { min?: number; max?: number } = {}) {
+  const { min = 0, max } = bounds;
+  const message = max !== undefined
+    ? `expected between ${min} and ${max} strings`
+    : `expected at least ${min} string${min === 1 ? '' : 's'}`;
+  let list = z.array(text(), { invalid_type_error: 'expected an array of strings' });
+  if (min > 0) {
+    list = list.min(min, message);
+  }
+  if (max !== undefined) {
+    list = list.max(max, message);
+  }
+  return z.preprocess(
+    value => (typeof value === 'string' ? value.split(/[,\r\n]/).map(item => item.trim()).filter(Boolean) : value),
+    list
+  );
+}
+
+export function choice<T extends string>(values: readonly [T, ...T[]]) {
+  return z.enum(values as [T, ...T[]], {
+    errorMap: () => ({ message: `expected one of ${values.join(', ')}` }),
+  });
+}
+
+// One of the locales Moz supports, as Moz spells them, e.g. en-US; en_us and
+// EN-us are accepted too
+export function locale() {
+  return z.preprocess(
+    value => (typeof value === 'string'
+      ? value.trim().replace(/^([a-z]{2})[-_]([a-z]{2})$/i, (_, language: string, region: string) => `${language.toLowerCase()}-${region.toUpperCase()}`)
+      : value),
+    choice(LOCALES)
+  );
+}
+
+export function engine() {
+  return choice(ENGINES);
+}
+
+export function device() {
+  return choice(DEVICES);
+}
+
+// The SERP arguments every keyword tool takes
+export const serpArgs = {
+  locale: locale().default('en-US').describe('Locale (defaults to en-US if not specified)'),
+  engine: engine().default('google').describe('Search engine'),
+  device: device().default('desktop').describe('Device the SERP data is for'),
+};
+
+export const nextTokenArg = text().optional()
+  .describe('Continuation token from a previous call, to fetch the rows that follow');
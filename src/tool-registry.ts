@@ -0,0 +1,222 @@
+import { CallToolResult, ErrorCode, McpError, Tool } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { MozApiClient } from './moz-client.js';
+import { OUTPUT_FORMATS, renderResult } from './output.js';
+import { Project, ProjectStore, projectKeywords } from './projects.js';
+import { ReportStore } from './reports.js';
+import { SnapshotStore } from './snapshots.js';
+import { choice, flag, text } from './tool-args.js';
+
+// Tools are declared once: name, description, a zod argument shape, the row
+// cost, what a saved project supplies, and the handler. The listed JSON Schema
+// and argument validation are both generated from the declaration.
+
+// Arguments every tool accepts in addition to its own
+export const commonArgs = {
+  fresh: flag().default(false).describe('Bypass the response cache and fetch live data from Moz'),
+  account: text().optional().describe('Named Moz account profile to run the call against (defaults to the default account)'),
+  dry_run: flag().default(false).describe('Return the estimated row cost of the call without calling Moz'),
+  output_format: choice(OUTPUT_FORMATS).default('json')
+    .describe('Result format: json, markdown (key figures and tables), csv (the main list of rows) or compact (one-line JSON without empty fields)'),
+};
+
+// Arguments of every tool that works on project data
+export const projectArgs = {
+  project: text().optional()
+    .describe('Saved project to take sites, competitors, keywords, locale and device from; explicit arguments win'),
+  keyword_group: text().optional()
+    .describe('With project, use only this keyword group (defaults to all groups)'),
+};
+
+type FullShape<Shape extends z.ZodRawShape> = Shape & typeof commonArgs & typeof projectArgs;
+export type ToolArgs<Shape extends z.ZodRawShape> = z.output<z.ZodObject<FullShape<Shape>>>;
+// Parsed arguments of a tool not known statically
+export type ParsedArgs = ToolArgs<{}> & Record<string, unknown>;
+
+export interface ToolContext {
+  // Name of the Moz account the call runs against
+  account: string;
+  client: MozApiClient;
+  projects: ProjectStore;
+  snapshots: SnapshotStore;
+  reports: ReportStore;
+  // Tells resource subscribers about changes the tool made
+  resourceUpdated(uri: string): void;
+  resourceListChanged(): void;
+}
+
+export interface ProjectFill {
+  project: Project;
+  // Arguments as the caller passed them
+  args: Record<string, unknown>;
+  // The project's keywords, limited to keyword_group when one was given
+  keywords(): string[];
+}
+
+export interface ToolDefinition<Shape extends z.ZodRawShape> {
+  name: string;
+  description: string;
+  args: Shape;
+  // Upper-bound row cost, assuming nothing is served from cache; defaults to one row
+  cost?: (args: ToolArgs<Shape>) => number;
+  // Arguments a saved project supplies; locale, device, engine and account
+  // come from the project for every tool
+  fromProject?: (fill: ProjectFill) => Record<string, unknown>;
+  // Tools that manage projects themselves take no project argument
+  acceptsProject?: boolean;
+  // Returns a result to render in the requested output format, or
+  // ToolOutput for content that is already rendered
+  handler: (args: ToolArgs<Shape>, context: ToolContext) => Promise<unknown>;
+}
+
+export type AnyTool = ToolDefinition<z.ZodRawShape>;
+
+// Checks the handler against its own shape, then widens the tool so tools of
+// different shapes fit in one list. The registry only calls cost and handler
+// with arguments parsed by that shape's schema.
+export function defineTool<Shape extends z.ZodRawShape>(tool: ToolDefinition<Shape>): AnyTool {
+  return tool as unknown as AnyTool;
+}
+
+// Tool content that is returned as is instead of being rendered
+export class ToolOutput {
+  constructor(readonly content: CallToolResult['content']) {}
+}
+
+export function textOutput(...texts: string[]): ToolOutput {
+  return new ToolOutput(texts.map(text => ({ type: 'text' as const, text })));
+}
+
+// Used to find out which required arguments a project can supply
+const SAMPLE_PROJECT: Project = {
+  name: 'sample',
+  site: 'example.com',
+  competitors: ['competitor.com', 'rival.com'],
+  keyword_groups: { sample: ['sample keyword'] },
+  created_at: '',
+  updated_at: '',
+};
+
+// Zod issues as one InvalidParams message, e.g.
+// "Missing required parameter: keyword; Invalid limit: expected an integer between 1 and 1000"
+function issuesMessage(issues: z.ZodIssue[]): string {
+  return issues.map(issue => {
+    const param = issue.path.join('.') || 'arguments';
+    if (issue.code === 'invalid_type' && issue.received === 'undefined') {
+      return `Missing required parameter: ${param}`;
+    }
+    return `Invalid ${param}: ${issue.message}`;
+  }).join('; ');
+}
+
+interface RegisteredTool {
+  definition: AnyTool;
+  schema: z.ZodObject<z.ZodRawShape>;
+  listed: Tool;
+}
+
+export class ToolRegistry {
+  private tools = new Map<string, RegisteredTool>();
+
+  constructor(definitions: AnyTool[]) {
+    for (const definition of definitions) {
+      if (this.tools.has(definition.name)) {
+        throw new Error(`Tool ${definition.name} is declared twice`);
+      }
+      const schema = z.object({
+        ...definition.args,
+        ...commonArgs,
+        ...(definition.acceptsProject !== false && projectArgs),
+      });
+      this.tools.set(definition.name, { definition, schema, listed: listedTool(definition, schema) });
+    }
+  }
+
+  list(): Tool[] {
+    return [...this.tools.values()].map(tool => tool.listed);
+  }
+
+  get(name: string): AnyTool {
+    return this.entry(name).definition;
+  }
+
+  // Project values fill in what the caller left out, then the arguments are
+  // validated and coerced. Null counts as an omitted argument.
+  async parseArgs(name: string, raw: Record<string, unknown> = {}, projects: ProjectStore): Promise<ParsedArgs> {
+    const { definition, schema } = this.entry(name);
+    let args = Object.fromEntries(Object.entries(raw).filter(([, value]) => value !== null && value !== undefined));
+
+    if (definition.acceptsProject !== false && typeof args.project === 'string' && args.project.trim()) {
+      const project = await projects.get(args.project.trim());
+      const group = typeof args.keyword_group === 'string' ? args.keyword_group.trim() : undefined;
+      args = {
+        ...projectDefaults(project),
+        ...definition.fromProject?.({ project, args, keywords: () => projectKeywords(project, group) }),
+        ...args,
+      };
+    }
+
+    const parsed = schema.safeParse(args);
+    if (!parsed.success) {
+      throw new McpError(ErrorCode.InvalidParams, issuesMessage(parsed.error.issues));
+    }
+    return parsed.data as ParsedArgs;
+  }
+
+  private entry(name: string): RegisteredTool {
+    const tool = this.tools.get(name);
+    if (!tool) {
+      throw new McpError(ErrorCode.MethodNotFound, `Unknown tool: ${name}`);
+    }
+    return tool;
+  }
+}
+
+function projectDefaults(project: Project): Record<string, unknown> {
+  return {
+    ...(project.locale && { locale: project.locale }),
+    ...(project.device && { device: project.device }),
+    ...(project.engine && { engine: project.engine }),
+    ...(project.account && { account: project.account }),
+  };
+}
+
+// The tool as ListTools shows it, without requiring what a project can supply
+function listedTool(definition: AnyTool, schema: z.ZodObject<z.ZodRawShape>): Tool {
+  const { $schema, additionalProperties, ...inputSchema } = zodToJsonSchema(schema, {
+    $refStrategy: 'none',
+    effectStrategy: 'input',
+  }) as Record<string, unknown> & { required?: string[] };
+
+  const supplied = definition.fromProject
+    ? Object.keys(definition.fromProject({ project: SAMPLE_PROJECT, args: {}, keywords: () => ['sample keyword'] }))
+    : [];
+  const required = (inputSchema.required ?? []).filter(param => !supplied.includes(param));
+  delete inputSchema.required;
+
+  return {
+    name: definition.name,
+    description: definition.description,
+    inputSchema: {
+      ...inputSchema,
+      type: 'object',
+      ...(required.length > 0 && { required }),
+    },
+  };
+}
+
+export async function runTool(tool: AnyTool, args: ParsedArgs, context: ToolContext): Promise<CallToolResult> {
+  const result = await tool.handler(args, context);
+  if (result instanceof ToolOutput) {
+    return { content: result.content };
+  }
+  return {
+    content: [
+      {
+        type: 'text',
+        text: renderResult(result, args.output_format),
+      },
+    ],
+  };
+}
@@ -0,0 +1,750 @@
+import { z } from 'zod';
+import { MozInvalidParamsError } from './errors.js';
+import { DEFAULT_CLUSTER_THRESHOLD } from './clustering.js';
+import { GAP_SORT_KEYS, keywordGapTable } from './keyword-gap.js';
+import { normalizeKeyword, parseKeywordList } from './keywords.js';
+import { LINK_TYPES, normalizeDomain } from './link-intersect.js';
+import { MAX_LINKS_PAGE_SIZE, MAX_URL_METRICS_BATCH, MozApiClient, discoveryLinkingDomainRows } from './moz-client.js';
+import { Device, Engine, SerpOptions } from './moz-types.js';
+import { collectPages } from './pagination.js';
+import { ProjectFields } from './projects.js';
+import { REPORT_FORMATS, renderCompetitorReport, reportFileName } from './report.js';
+import { resourceUri } from './resources.js';
+import { diffSnapshots, snapshotsBetween, timeSeries } from './snapshots.js';
+import { TABLE_FORMATS } from './table.js';
+import {
+  choice,
+  decimal,
+  device,
+  engine,
+  flag,
+  integer,
+  limit,
+  locale,
+  nextTokenArg,
+  serpArgs,
+  text,
+  textList,
+} from './tool-args.js';
+import { AnyTool, defineTool, textOutput } from './tool-registry.js';
+
+// Every tool the server offers, in the order ListTools returns them
+
+const LINK_SCOPES = ['page', 'subdomain', 'root_domain'] as const;
+const MAX_BULK_KEYWORDS = 1000;
+const MAX_GAP_COMPETITORS = 10;
+const MAX_DISCOVERY_SEEDS = 10;
+const MAX_DISCOVERY_CANDIDATES = 50;
+
+// Costs nothing from the Moz row quota
+const free = () => 0;
+
+const keywordArg = text().describe('The keyword to analyze');
+
+const keywordListArgs = {
+  keywords_text: text().optional()
+    .describe('Alternative to keywords: one keyword per line, or CSV with the keyword in the first column'),
+};
+
+// Normalized keywords from keywords or keywords_text
+function keywordsOf(args: { keywords?: string[]; keywords_text?: string }): string[] {
+  return parseKeywordList(args.keywords ?? args.keywords_text ?? '');
+}
+
+function ensureKeywordCount(keywords: string[]): void {
+  if (keywords.length > MAX_BULK_KEYWORDS) {
+    throw new MozInvalidParamsError(`Too many keywords: ${keywords.length} (maximum ${MAX_BULK_KEYWORDS})`);
+  }
+}
+
+function serpOptions(args: SerpOptions): SerpOptions {
+  return { locale: args.locale, engine: args.engine, device: args.device };
+}
+
+// The single-keyword lookups differ only in the Moz method they call
+function keywordLookup(
+  name: string,
+  description: string,
+  fetch: (client: MozApiClient, keyword: string, options: SerpOptions) => Promise<unknown>
+): AnyTool {
+  return defineTool({
+    name,
+    description,
+    args: { keyword: keywordArg, ...serpArgs },
+    handler: (args, { client }) => fetch(client, args.keyword, serpOptions(args)),
+  });
+}
+
+// Site metrics, brand authority and 100 ranking keywords per site, plus the
+// target keyword's lookups
+function competitorAnalysisCost(args: { competitor_sites: string[]; include_keyword_analysis?: boolean }): number {
+  const sites = 1 + args.competitor_sites.length;
+  const keywordRows = args.include_keyword_analysis === false ? 0 : 4;
+  return sites * 102 + keywordRows;
+}
+
+const competitorFromProject = ({ project, keywords }: { project: { site: string; competitors: string[] }; keywords(): string[] }) => ({
+  primary_site: project.site,
+  competitor_sites: project.competitors,
+  ...(keywords().length > 0 && { target_keyword: keywords()[0] }),
+});
+
+const linkTargetArgs = {
+  target: text().describe('The URL or domain to analyze'),
+  scope: choice(LINK_SCOPES).default('page').describe('Scope of the target'),
+};
+
+const linkTargetFromProject = ({ project }: { project: { site: string } }) => ({ target: project.site });
+
+const projectFieldArgs = {
+  site: text().optional().describe('Primary site domain'),
+  competitors: textList().optional().describe('Competitor domains'),
+  keyword_groups: z.record(z.array(text(), { invalid_type_error: 'expected an array of strings' }), {
+    invalid_type_error: 'expected an object of group name to keywords',
+  }).optional().describe('Keyword groups by name, e.g. {"pricing": ["seo tool pricing", "moz pricing"]}'),
+  locale: locale().optional().describe('Locale for the project\'s keyword data, e.g. en-US'),
+  device: device().optional().describe('Device for the project\'s SERP data'),
+  engine: engine().optional().describe('Search engine for the project\'s SERP data'),
+  project_account: text().optional().describe('Moz account profile the project\'s calls run against'),
+};
+
+// Project fields present in tool arguments. Fields that are absent stay
+// absent, so the result works for both create and update.
+function projectFields(args: {
+  site?: string;
+  competitors?: string[];
+  keyword_groups?: Record<string, string[]>;
+  locale?: string;
+  device?: Device;
+  engine?: Engine;
+  project_account?: string;
+}): Partial<ProjectFields> {
+  return {
+    ...(args.site !== undefined && { site: args.site }),
+    ...(args.competitors && { competitors: [...new Set(args.competitors)] }),
+    ...(args.keyword_groups && {
+      keyword_groups: Object.fromEntries(
+        Object.entries(args.keyword_groups).map(([group, keywords]) => [group, parseKeywordList(keywords)])
+      ),
+    }),
+    ...(args.locale && { locale: args.locale }),
+    ...(args.device && { device: args.device }),
+    ...(args.engine && { engine: args.engine }),
+    ...(args.project_account && { account: args.project_account }),
+  };
+}
+
+export const tools: AnyTool[] = [
+  defineTool({
+    name: 'moz_quota',
+    description: 'Check your Moz API quota and usage limits',
+    args: {},
+    cost: free,
+    handler: (_args, { client }) => client.getQuota(),
+  }),
+
+  // V3 API Methods - Core functionality
+  keywordLookup(
+    'moz_keyword_search_intent',
+    'Fetch search intent data for a keyword',
+    (client, keyword, options) => client.getKeywordSearchIntent(keyword, options)
+  ),
+  defineTool({
+    name: 'moz_keyword_suggestions',
+    description: 'Get related keyword suggestions. Returns next_token when more suggestions are available.',
+    args: {
+      keyword: text().describe('The seed keyword'),
+      ...serpArgs,
+      limit: limit().default(1000).describe('Maximum number of suggestions to return (1-1000, fetched across pages)'),
+      next_token: nextTokenArg,
+    },
+    cost: args => args.limit,
+    handler: async (args, { client }) => {
+      const page = await collectPages(
+        client.keywordSuggestionsPager(args.keyword, serpOptions(args)),
+        { maxRows: args.limit, pageToken: args.next_token }
+      );
+      return { suggestions: page.items, next_token: page.nextToken ?? null };
+    },
+  }),
+  keywordLookup(
+    'moz_keyword_difficulty',
+    'Fetch keyword difficulty score',
+    (client, keyword, options) => client.getKeywordDifficulty(keyword, options)
+  ),
+  keywordLookup(
+    'moz_keyword_volume',
+    'Fetch keyword search volume',
+    (client, keyword, options) => client.getKeywordVolume(keyword, options)
+  ),
+  defineTool({
+    name: 'moz_keyword_metrics',
+    description: 'Fetch all keyword metrics (difficulty, volume, organic CTR, priority), optionally for desktop and mobile side by side',
+    args: {
+      keyword: keywordArg,
+      ...serpArgs,
+      compare_devices: flag().default(false)
+        .describe('Return desktop and mobile metrics side by side with the mobile minus desktop difference (device is ignored)'),
+    },
+    cost: args => (args.compare_devices ? 2 : 1),
+    handler: (args, { client }) => (args.compare_devices
+      ? client.compareKeywordMetricsByDevice(args.keyword, { locale: args.locale, engine: args.engine })
+      : client.getKeywordMetrics(args.keyword, serpOptions(args))),
+  }),
+  keywordLookup(
+    'moz_keyword_opportunity',
+    'Fetch keyword opportunity (organic CTR) data',
+    (client, keyword, options) => client.getKeywordOpportunity(keyword, options)
+  ),
+  keywordLookup(
+    'moz_keyword_priority',
+    'Fetch keyword priority score',
+    (client, keyword, options) => client.getKeywordPriority(keyword, options)
+  ),
+  defineTool({
+    name: 'moz_keyword_bulk_metrics',
+    description: 'Fetch difficulty, volume, organic CTR, priority and primary search intent for a list of keywords in one call. Keywords are trimmed, lowercased and deduplicated. Returns one table row per keyword; failed lookups are reported in that row\'s error field.',
+    args: {
+      keywords: textList().optional().describe(`Keywords to analyze (up to ${MAX_BULK_KEYWORDS})`),
+      ...keywordListArgs,
+      ...serpArgs,
+      include_intent: flag().default(true).describe('Whether to look up the primary search intent of each keyword'),
+      concurrency: integer(1, 10).default(5).describe('Maximum number of keywords fetched in parallel (1-10)'),
+    },
+    cost: args => keywordsOf(args).length * (args.include_intent ? 2 : 1),
+    fromProject: ({ args, keywords }) => (args.keywords === undefined && args.keywords_text === undefined ? { keywords: keywords() } : {}),
+    handler: async (args, { client }) => {
+      const keywords = keywordsOf(args);
+      if (keywords.length === 0) {
+        throw new MozInvalidParamsError('Missing required parameter: keywords or keywords_text');
+      }
+      ensureKeywordCount(keywords);
+      const rows = await client.getBulkKeywordMetrics(keywords, {
+        ...serpOptions(args),
+        includeIntent: args.include_intent,
+        concurrency: args.concurrency,
+      });
+      return {
+        keywords: rows.length,
+        failed: rows.filter(row => row.error).length,
+        rows,
+      };
+    },
+  }),
+  defineTool({
+    name: 'moz_keyword_clusters',
+    description: 'Group keywords into topic clusters by shared terms, head terms and search intent. Keywords come from a list, the suggestions for a seed keyword and/or the keywords a site ranks for. Each cluster reports its total volume, average difficulty, primary intent and a suggested pillar keyword. Grouping runs locally once metrics are fetched.',
+    args: {
+      keywords: textList().optional().describe(`Keywords to cluster (up to ${MAX_BULK_KEYWORDS})`),
+      ...keywordListArgs,
+      seed_keyword: text().optional().describe('Also cluster the keyword suggestions for this seed keyword'),
+      site: text().optional().describe('Also cluster the keywords this site ranks for'),
+      limit: limit().default(100).describe('Rows taken from each of seed_keyword and site (max 1000)'),
+      similarity_threshold: decimal(0, 1).default(DEFAULT_CLUSTER_THRESHOLD)
+        .describe('Minimum similarity (0-1) for a keyword to join a cluster; higher gives smaller, tighter clusters'),
+      include_intent: flag().default(true).describe('Whether to look up search intent and keep keywords of different intent apart'),
+      ...serpArgs,
+    },
+    // Listed keywords need metrics and intent; suggestions are listed first,
+    // and ranking keywords bring their own metrics and only need intent
+    cost: args => {
+      const intent = args.include_intent ? 1 : 0;
+      const suggested = args.seed_keyword ? args.limit : 0;
+      const ranking = args.site ? args.limit : 0;
+      const lookedUp = keywordsOf(args).length + suggested;
+      return suggested + lookedUp * (1 + intent) + ranking * (1 + intent);
+    },
+    fromProject: ({ args, keywords }) => (args.keywords === undefined && args.keywords_text === undefined ? { keywords: keywords() } : {}),
+    handler: async (args, { client }) => {
+      const keywords = keywordsOf(args);
+      if (keywords.length === 0 && !args.seed_keyword && !args.site) {
+        throw new MozInvalidParamsError('Missing required parameter: keywords, keywords_text, seed_keyword or site');
+      }
+      ensureKeywordCount(keywords);
+      return client.getKeywordClusters(
+        { keywords, seedKeyword: args.seed_keyword, site: args.site, limit: args.limit },
+        { ...serpOptions(args), includeIntent: args.include_intent, threshold: args.similarity_threshold }
+      );
+    },
+  }),
+  defineTool({
+    name: 'moz_site_brand_authority',
+    description: 'Fetch Brand Authority for a site',
+    args: { site: text().describe('The site domain to analyze') },
+    fromProject: ({ project }) => ({ site: project.site }),
+    handler: (args, { client }) => client.getSiteBrandAuthority(args.site),
+  }),
+  defineTool({
+    name: 'moz_site_metrics',
+    description: 'Fetch metrics for a single site',
+    args: { site: text().describe('The site domain to analyze') },
+    fromProject: ({ project }) => ({ site: project.site }),
+    handler: (args, { client }) => client.getSiteMetrics(args.site),
+  }),
+  defineTool({
+    name: 'moz_site_metrics_multiple',
+    description: 'Fetch metrics for multiple sites at once',
+    args: { sites: textList({ min: 1 }).describe('Array of site domains to analyze') },
+    cost: args => args.sites.length,
+    fromProject: ({ project }) => ({ sites: [project.site, ...project.competitors] }),
+    handler: (args, { client }) => client.getSiteMetricsMultiple(args.sites),
+  }),
+  defineTool({
+    name: 'moz_site_ranking_keywords',
+    description: 'List ranking keywords for a site. Returns next_token when more keywords are available.',
+    args: {
+      site: text().describe('The site domain to analyze'),
+      engine: serpArgs.engine,
+      locale: serpArgs.locale,
+      limit: limit().default(100).describe('Maximum number of keywords to return (1-1000, fetched across pages)'),
+      next_token: nextTokenArg,
+    },
+    cost: args => args.limit,
+    fromProject: ({ project }) => ({ site: project.site }),
+    handler: async (args, { client }) => {
+      const page = await collectPages(
+        client.siteRankingKeywordsPager(args.site, { engine: args.engine, locale: args.locale }),
+        { maxRows: args.limit, pageToken: args.next_token }
+      );
+      return { ranking_keywords: page.items, next_token: page.nextToken ?? null };
+    },
+  }),
+
+  // Link Methods
+  defineTool({
+    name: 'moz_url_metrics',
+    description: 'Fetch link metrics for up to 50 URLs, subdomains or root domains. Each entry in results has page, root_domain, domain_authority, page_authority, spam_score, root_domains_to_root_domain and external_pages_to_root_domain.',
+    args: {
+      targets: textList({ min: 1, max: MAX_URL_METRICS_BATCH })
+        .describe(`URLs or domains to fetch metrics for (max ${MAX_URL_METRICS_BATCH})`),
+      scope: choice(LINK_SCOPES).optional().describe('Scope the targets are evaluated at'),
+      metrics: textList().optional().describe('Restrict the response to these metric names'),
+    },
+    cost: args => args.targets.length,
+    fromProject: ({ project }) => ({ targets: [project.site, ...project.competitors] }),
+    handler: (args, { client }) => client.getUrlMetrics(args.targets, { scope: args.scope, metrics: args.metrics }),
+  }),
+  defineTool({
+    name: 'moz_links',
+    description: 'List inbound links to a URL, subdomain or root domain. Each entry in results has source (page, root_domain, domain_authority, page_authority, spam_score), target, anchor_text, nofollow, date_first_seen and date_last_seen. Returns next_token when more rows are available.',
+    args: {
+      ...linkTargetArgs,
+      target: text().describe('The URL or domain to list links for'),
+      source_scope: choice(LINK_SCOPES).optional()
+        .describe('Group linking sources at this scope (one link per page, subdomain or root domain)'),
+      sort: text().optional().describe('Sort order, e.g. source_domain_authority, source_page_authority or date_first_seen'),
+      filter: text().optional().describe('Filter expression, e.g. external+follow or external+nofollow'),
+      limit: limit().default(MAX_LINKS_PAGE_SIZE).describe('Maximum number of links to return (1-1000, fetched across pages)'),
+      next_token: nextTokenArg,
+    },
+    cost: args => args.limit,
+    fromProject: linkTargetFromProject,
+    handler: async (args, { client }) => {
+      const page = await collectPages(
+        client.linksPager(args.target, { scope: args.scope, sourceScope: args.source_scope, sort: args.sort, filter: args.filter }),
+        { maxRows: args.limit, pageToken: args.next_token }
+      );
+      return { results: page.items, next_token: page.nextToken ?? null };
+    },
+  }),
+  defineTool({
+    name: 'moz_anchor_text',
+    description: 'List the anchor texts used in links to a target. Each entry in results has anchor_text, external_pages and external_root_domains. Returns next_token when more rows are available.',
+    args: {
+      ...linkTargetArgs,
+      sort: text().optional().describe('Sort order, e.g. external_root_domains or external_pages'),
+      limit: limit().default(MAX_LINKS_PAGE_SIZE).describe('Maximum number of anchor texts to return (1-1000, fetched across pages)'),
+      next_token: nextTokenArg,
+    },
+    cost: args => args.limit,
+    fromProject: linkTargetFromProject,
+    handler: async (args, { client }) => {
+      const page = await collectPages(
+        client.anchorTextPager(args.target, { scope: args.scope, sort: args.sort }),
+        { maxRows: args.limit, pageToken: args.next_token }
+      );
+      return { results: page.items, next_token: page.nextToken ?? null };
+    },
+  }),
+  defineTool({
+    name: 'moz_linking_domains',
+    description: 'List root domains linking to a target. Each entry in results has root_domain, domain_authority, spam_score and to_target (pages, nofollow_pages, redirect_pages). Returns next_token when more rows are available.',
+    args: {
+      ...linkTargetArgs,
+      sort: text().optional().describe('Sort order, e.g. source_domain_authority or source_spam_score'),
+      filter: text().optional().describe('Filter expression, e.g. follow or nofollow'),
+      limit: limit().default(MAX_LINKS_PAGE_SIZE).describe('Maximum number of linking domains to return (1-1000, fetched across pages)'),
+      next_token: nextTokenArg,
+    },
+    cost: args => args.limit,
+    fromProject: linkTargetFromProject,
+    handler: async (args, { client }) => {
+      const page = await collectPages(
+        client.linkingDomainsPager(args.target, { scope: args.scope, sort: args.sort, filter: args.filter }),
+        { maxRows: args.limit, pageToken: args.next_token }
+      );
+      return { results: page.items, next_token: page.nextToken ?? null };
+    },
+  }),
+  defineTool({
+    name: 'moz_top_pages',
+    description: 'List the top pages on a subdomain or root domain by authority. Each entry in results has page, title, http_code, page_authority and root_domains_to_page. Returns next_token when more rows are available.',
+    args: {
+      target: text().describe('The subdomain or root domain to analyze'),
+      scope: choice(['subdomain', 'root_domain'] as const).default('root_domain').describe('Scope of the target'),
+      sort: text().optional().describe('Sort order, e.g. page_authority or root_domains_to_page'),
+      limit: limit().default(MAX_LINKS_PAGE_SIZE).describe('Maximum number of pages to return (1-1000, fetched across pages)'),
+      next_token: nextTokenArg,
+    },
+    cost: args => args.limit,
+    fromProject: linkTargetFromProject,
+    handler: async (args, { client }) => {
+      const page = await collectPages(
+        client.topPagesPager(args.target, { scope: args.scope, sort: args.sort }),
+        { maxRows: args.limit, pageToken: args.next_token }
+      );
+      return { results: page.items, next_token: page.nextToken ?? null };
+    },
+  }),
+  defineTool({
+    name: 'moz_keyword_gap',
+    description: 'Content gap analysis: compares the ranking keywords of a site with those of its competitors. Returns keywords competitors rank for that the site does not (missing), shared keywords where a competitor ranks higher (weaker), and keywords only the site ranks for (unique). Opportunity is search volume discounted by difficulty.',
+    args: {
+      site: text().describe('The primary site domain'),
+      competitor_sites: textList({ min: 1, max: MAX_GAP_COMPETITORS })
+        .describe(`Competitor domains to compare against (1-${MAX_GAP_COMPETITORS})`),
+      limit: limit().default(100).describe('Ranking keywords fetched per site (max 1000)'),
+      sort_by: choice(GAP_SORT_KEYS).default('opportunity').describe('Sort order of each section; difficulty sorts easiest first'),
+      top: limit().default(50).describe('Maximum rows returned per section'),
+      format: choice(TABLE_FORMATS).optional()
+        .describe('json for the structured result, csv or markdown for one exportable table (defaults to output_format when that is csv or markdown, else json)'),
+      engine: serpArgs.engine,
+      locale: serpArgs.locale,
+    },
+    cost: args => (1 + args.competitor_sites.length) * args.limit,
+    fromProject: ({ project }) => ({ site: project.site, competitor_sites: project.competitors }),
+    handler: async (args, { client }) => {
+      // output_format csv and markdown get the gap's own table layout
+      const format = args.format
+        ?? (args.output_format === 'csv' || args.output_format === 'markdown' ? args.output_format : 'json');
+      const result = await client.getKeywordGap(args.site, args.competitor_sites, {
+        engine: args.engine,
+        locale: args.locale,
+        limit: args.limit,
+        sortBy: args.sort_by,
+        top: args.top,
+      });
+      if (format === 'json') {
+        return result;
+      }
+      // Tables carry no error column, so failed competitors get their own note
+      const failures = Object.entries(result.errors ?? {}).map(([site, error]) => `${site}: ${error}`);
+      return textOutput(
+        keywordGapTable(result, format),
+        ...(failures.length > 0 ? [`Competitors left out: ${failures.join('; ')}`] : [])
+      );
+    },
+  }),
+  defineTool({
+    name: 'moz_keyword_opportunities',
+    description: 'Which pages to optimize next: takes the keywords a site ranks for, adds difficulty, volume, organic CTR and priority, flags striking-distance keywords (positions 4-20) and ranks them by the estimated monthly traffic gained if the ranking page moved into the top 3. Also totals the uplift per ranking page.',
+    args: {
+      site: text().describe('The site domain'),
+      limit: limit().default(100).describe('Ranking keywords analyzed (max 1000)'),
+      striking_distance_only: flag().default(false)
+        .describe('Only analyze keywords ranking in positions 4-20; saves the metrics lookups of the others'),
+      min_volume: integer(0, 100000000).optional().describe('Leave out keywords with a lower monthly search volume'),
+      max_difficulty: integer(0, 100).optional().describe('Leave out keywords with a higher difficulty'),
+      top: limit().default(50).describe('Maximum keywords returned'),
+      concurrency: integer(1, 10).default(5).describe('Maximum number of keywords looked up in parallel (1-10)'),
+      ...serpArgs,
+    },
+    // Ranking keyword rows plus one metrics lookup per keyword
+    cost: args => args.limit * 2,
+    fromProject: ({ project }) => ({ site: project.site }),
+    handler: (args, { client }) => client.getKeywordOpportunities(args.site, {
+      ...serpOptions(args),
+      limit: args.limit,
+      strikingDistanceOnly: args.striking_distance_only,
+      minVolume: args.min_volume,
+      maxDifficulty: args.max_difficulty,
+      top: args.top,
+      concurrency: args.concurrency,
+    }),
+  }),
+  defineTool({
+    name: 'moz_link_intersect',
+    description: 'Backlink gap: finds root domains that link to two or more competitors but not to your site, ranked by Domain Authority and spam score. Use it to build link outreach lists.',
+    args: {
+      site: text().describe('Your site domain'),
+      competitor_sites: textList({ min: 2, max: MAX_GAP_COMPETITORS }).describe(`Competitor domains (2-${MAX_GAP_COMPETITORS})`),
+      min_competitors: integer(1, MAX_GAP_COMPETITORS).default(2).describe('Number of competitors a domain must link to'),
+      min_domain_authority: decimal(0, 100).optional().describe('Leave out domains below this Domain Authority'),
+      max_spam_score: decimal(0, 100).optional().describe('Leave out domains above this spam score'),
+      link_type: choice(LINK_TYPES).default('all').describe('Only count followed or nofollowed links'),
+      exclude_directories: flag().default(true).describe('Leave out known web directories and link lists'),
+      exclude_domains: textList().optional().describe('Domains to leave out, e.g. ones already contacted'),
+      limit: limit().default(200).describe('Linking domains fetched per site (max 1000)'),
+      top: limit().default(100).describe('Maximum prospects returned'),
+    },
+    // Linking domains per site, plus url_metrics for at most every competitor row
+    cost: args => (1 + args.competitor_sites.length) * args.limit + args.competitor_sites.length * args.limit,
+    fromProject: ({ project }) => ({ site: project.site, competitor_sites: project.competitors }),
+    handler: (args, { client }) => {
+      if (args.min_competitors > args.competitor_sites.length) {
+        throw new MozInvalidParamsError(
+          `Invalid min_competitors: expected a number between 1 and ${args.competitor_sites.length}`
+        );
+      }
+      return client.getLinkIntersect(args.site, args.competitor_sites, {
+        minCompetitors: args.min_competitors,
+        minDomainAuthority: args.min_domain_authority,
+        maxSpamScore: args.max_spam_score,
+        linkType: args.link_type,
+        excludeDirectories: args.exclude_directories,
+        excludeDomains: args.exclude_domains,
+        limit: args.limit,
+        top: args.top,
+      });
+    },
+  }),
+
+  // Snapshots
+  defineTool({
+    name: 'moz_snapshot_take',
+    description: 'Record a snapshot of the current Domain Authority, Page Authority, spam score, Brand Authority and ranking keywords of the given sites, and the metrics of the given keywords, for trend tracking',
+    args: {
+      sites: textList().default([]).describe('Site domains to track'),
+      keywords: textList().default([]).describe('Keywords to track'),
+      label: text().optional().describe('Optional note, e.g. "Q3 baseline"'),
+      ranking_keywords_limit: limit().default(100).describe('Ranking keywords recorded per site (max 1000)'),
+      engine: serpArgs.engine,
+      locale: serpArgs.locale,
+    },
+    // Site metrics, brand authority and ranking keywords per site, metrics per keyword
+    cost: args => args.sites.length * (2 + args.ranking_keywords_limit) + parseKeywordList(args.keywords).length,
+    fromProject: ({ project, args, keywords }) => ({
+      sites: [project.site, ...project.competitors],
+      ...(args.keywords === undefined && { keywords: keywords() }),
+    }),
+    handler: async (args, { account, client, snapshots, resourceListChanged }) => {
+      const keywords = parseKeywordList(args.keywords);
+      if (args.sites.length === 0 && keywords.length === 0) {
+        throw new MozInvalidParamsError('Missing required parameter: sites or keywords');
+      }
+      const data = await client.getSnapshotData(args.sites, keywords, {
+        locale: args.locale,
+        engine: args.engine,
+        rankingKeywordsLimit: args.ranking_keywords_limit,
+      });
+      const snapshot = await snapshots.add({ account, ...(args.label && { label: args.label }), ...data });
+      resourceListChanged();
+      return snapshot;
+    },
+  }),
+  defineTool({
+    name: 'moz_snapshot_list',
+    description: 'List recorded snapshots, newest first, with what each one tracks',
+    args: {
+      limit: limit().default(20).describe('Maximum snapshots listed'),
+    },
+    cost: free,
+    handler: async (args, { account, snapshots }) => {
+      const listed = (await snapshots.list(account)).reverse().slice(0, args.limit);
+      return listed.map(snapshot => ({
+        id: snapshot.id,
+        taken_at: snapshot.taken_at,
+        label: snapshot.label ?? null,
+        sites: Object.keys(snapshot.sites),
+        keywords: Object.keys(snapshot.keywords),
+      }));
+    },
+  }),
+  defineTool({
+    name: 'moz_snapshot_series',
+    description: 'Time series from recorded snapshots: a site\'s authority metrics and ranking keyword count, a keyword\'s metrics, or (with both site and keyword) the site\'s rank for the keyword',
+    args: {
+      site: text().optional().describe('Tracked site domain'),
+      keyword: text().optional().describe('Tracked keyword, or with site the keyword to follow the site\'s rank for'),
+      since: text().optional().describe('Only snapshots from this date on (YYYY-MM-DD or ISO timestamp)'),
+      until: text().optional().describe('Only snapshots up to this date (YYYY-MM-DD or ISO timestamp)'),
+    },
+    cost: free,
+    handler: async (args, { account, snapshots }) => {
+      if (!args.site && !args.keyword) {
+        throw new MozInvalidParamsError('Missing required parameter: site or keyword');
+      }
+      const series = timeSeries(
+        snapshotsBetween(await snapshots.list(account), args.since, args.until),
+        { site: args.site && normalizeDomain(args.site), keyword: args.keyword && normalizeKeyword(args.keyword) }
+      );
+      return { site: args.site ?? null, keyword: args.keyword ?? null, points: series };
+    },
+  }),
+  defineTool({
+    name: 'moz_snapshot_diff',
+    description: 'Compare two snapshots: metric deltas per site and keyword, and per site the keywords gained, lost, improved and declined in rank. Defaults to the two most recent snapshots.',
+    args: {
+      from: text().optional().describe('Earlier snapshot ID (defaults to the second most recent)'),
+      to: text().optional().describe('Later snapshot ID (defaults to the most recent)'),
+    },
+    cost: free,
+    handler: async (args, { account, snapshots }) => {
+      const all = await snapshots.list(account);
+      const to = args.to ? await snapshots.get(account, args.to) : all[all.length - 1];
+      const earlier = all.filter(snapshot => snapshot.taken_at < (to?.taken_at ?? ''));
+      const from = args.from ? await snapshots.get(account, args.from) : earlier[earlier.length - 1];
+      if (!from || !to) {
+        throw new MozInvalidParamsError('Need two snapshots to compare: take another snapshot or pass from and to');
+      }
+      return diffSnapshots(from, to);
+    },
+  }),
+
+  // Projects
+  defineTool({
+    name: 'moz_project_create',
+    description: 'Create a named project holding a primary site, competitors, keyword groups, locale and device. Pass project to other tools to use these instead of retyping them.',
+    args: {
+      name: text().describe('Project name (letters, digits, dots, dashes, underscores)'),
+      ...projectFieldArgs,
+      site: text().describe('Primary site domain'),
+    },
+    cost: free,
+    acceptsProject: false,
+    handler: async (args, { projects, resourceListChanged }) => {
+      const project = await projects.create(args.name, {
+        site: args.site,
+        competitors: [],
+        keyword_groups: {},
+        ...projectFields(args),
+      });
+      resourceListChanged();
+      return project;
+    },
+  }),
+  defineTool({
+    name: 'moz_project_list',
+    description: 'List saved projects',
+    args: {},
+    cost: free,
+    acceptsProject: false,
+    handler: (_args, { projects }) => projects.list(),
+  }),
+  defineTool({
+    name: 'moz_project_update',
+    description: 'Update a project. Given fields replace the stored ones; keyword_groups replaces all groups.',
+    args: {
+      name: text().describe('Project to update'),
+      ...projectFieldArgs,
+    },
+    cost: free,
+    acceptsProject: false,
+    handler: async (args, { projects, resourceUpdated }) => {
+      const project = await projects.update(args.name, projectFields(args));
+      resourceUpdated(resourceUri({ kind: 'project', name: project.name }));
+      return project;
+    },
+  }),
+  defineTool({
+    name: 'moz_project_delete',
+    description: 'Delete a project',
+    args: {
+      name: text().describe('Project to delete'),
+    },
+    cost: free,
+    acceptsProject: false,
+    handler: async (args, { projects, resourceListChanged }) => {
+      const project = await projects.delete(args.name);
+      resourceListChanged();
+      return { deleted: project.name };
+    },
+  }),
+
+  defineTool({
+    name: 'moz_discover_competitors',
+    description: 'Find competitors automatically: compares the ranking keywords of a site with those of candidate domains (its linking domains and any seeds) and ranks them by search-volume-weighted keyword overlap. The resulting competitor_sites can be passed straight to moz_competitor_analysis.',
+    args: {
+      site: text().describe('The site to find competitors for'),
+      seeds: textList({ max: MAX_DISCOVERY_SEEDS }).default([])
+        .describe(`Domains you suspect compete with the site; always evaluated and listed (max ${MAX_DISCOVERY_SEEDS})`),
+      candidates: integer(0, MAX_DISCOVERY_CANDIDATES).default(20)
+        .describe(`Linking domains of the site to evaluate as candidates, highest Domain Authority first (0-${MAX_DISCOVERY_CANDIDATES})`),
+      exclude_domains: textList().default([])
+        .describe('Domains never to suggest, e.g. social networks or your own properties'),
+      min_overlap: decimal(0, 100).default(1)
+        .describe('Minimum volume-weighted keyword overlap in percent for a linking domain to be listed'),
+      limit: limit().default(100).describe('Ranking keywords fetched per site (max 1000)'),
+      top: limit().default(10).describe('Maximum competitors returned'),
+      engine: serpArgs.engine,
+      locale: serpArgs.locale,
+    },
+    cost: args => discoveryLinkingDomainRows(args.candidates) + (1 + args.seeds.length + args.candidates) * args.limit,
+    // The project's competitors are seeds unless the caller gave their own
+    fromProject: ({ project, args }) => ({
+      site: project.site,
+      ...(args.seeds === undefined && { seeds: project.competitors }),
+    }),
+    handler: (args, { client }) => client.discoverCompetitors(args.site, {
+      seeds: args.seeds,
+      engine: args.engine,
+      locale: args.locale,
+      limit: args.limit,
+      candidates: args.candidates,
+      excludeDomains: args.exclude_domains,
+      minOverlap: args.min_overlap,
+      top: args.top,
+    }),
+  }),
+  defineTool({
+    name: 'moz_competitor_analysis',
+    description: 'Comprehensive competitor analysis by combining site metrics, ranking keywords, and providing competitor identification guidance. Note: Moz API does not identify competitors itself; run moz_discover_competitors to find them, or specify the ones you know.',
+    args: {
+      primary_site: text().describe('The main site to analyze'),
+      competitor_sites: textList().default([])
+        .describe('Array of competitor domains to compare against (you need to specify these)'),
+      target_keyword: text().describe('Primary keyword/topic to focus the analysis on'),
+      locale: serpArgs.locale,
+      include_keyword_analysis: flag().default(true)
+        .describe('Whether to include keyword difficulty and volume analysis for the target keyword'),
+    },
+    cost: competitorAnalysisCost,
+    fromProject: competitorFromProject,
+    handler: (args, { client }) => client.getCompetitorAnalysis(
+      args.primary_site,
+      args.competitor_sites,
+      args.target_keyword,
+      { locale: args.locale, include_keyword_analysis: args.include_keyword_analysis }
+    ),
+  }),
+  defineTool({
+    name: 'moz_competitor_report',
+    description: 'Run a competitor analysis and render it as a self-contained Markdown or HTML report with comparison tables and insights, optionally saved to the reports directory',
+    args: {
+      primary_site: text().describe('The main site to analyze'),
+      competitor_sites: textList().default([]).describe('Competitor domains to compare against'),
+      target_keyword: text().describe('Primary keyword/topic to focus the analysis on'),
+      locale: serpArgs.locale,
+      format: choice(REPORT_FORMATS).default('markdown').describe('Report format'),
+      save: flag().default(false)
+        .describe('Also write the report to the reports directory (MOZ_REPORTS_DIR), where it is available as a moz://report resource'),
+    },
+    cost: competitorAnalysisCost,
+    fromProject: competitorFromProject,
+    handler: async (args, { client, reports, resourceListChanged }) => {
+      const analysis = await client.getCompetitorAnalysis(
+        args.primary_site,
+        args.competitor_sites,
+        args.target_keyword,
+        { locale: args.locale }
+      );
+      const report = renderCompetitorReport(analysis, args.format);
+      if (!args.save) {
+        return textOutput(report);
+      }
+      const saved = await reports.save(reportFileName(analysis, args.format), report);
+      resourceListChanged();
+      return textOutput(report, `Saved as ${resourceUri({ kind: 'report', name: saved.name })} in ${reports.directory}`);
+    },
+  }),
+];
@@ -0,0 +1,42 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { AccountPool, AccountProfile, adHocProfile } from '../src/accounts.js';
+
+const profile = (name: string): AccountProfile => ({ name, credentials: { apiToken: name } });
+
+describe('adHocProfile', () => {
+  it('names the account after a digest of the token, not the token itself', () => {
+    const { name, credentials } = adHocProfile('secret-token');
+    assert.match(name, /^token-[0-9a-f]{12}$/);
+    assert.equal(adHocProfile('secret-token').name, name);
+    assert.notEqual(adHocProfile('other-token').name, name);
+    assert.deepEqual(credentials, { apiToken: 'secret-token', authMode: 'v3' });
+  });
+});
+
+describe('AccountPool', () => {
+  it('builds each account once', () => {
+    let created = 0;
+    const pool = new AccountPool(({ name }) => ({ name, serial: ++created }));
+    assert.equal(pool.get(profile('a')), pool.get(profile('a')));
+    assert.equal(created, 1);
+  });
+
+  it('drops the least recently used account beyond maxEntries', () => {
+    const created: string[] = [];
+    const pool = new AccountPool(({ name }) => {
+      created.push(name);
+      return { name };
+    }, 2);
+    pool.get(profile('a'));
+    pool.get(profile('b'));
+    pool.get(profile('a'));
+    pool.get(profile('c'));
+    assert.equal(pool.size, 2);
+
+    // b was used least recently, so it is the one rebuilt
+    pool.get(profile('a'));
+    pool.get(profile('b'));
+    assert.deepEqual(created, ['a', 'b', 'c', 'b']);
+  });
+});
@@ -0,0 +1,125 @@
+import assert from 'node:assert/strict';
+import path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { fileURLToPath } from 'node:url';
+import { MozCredentials, V2SignedAuth, V3TokenAuth, authStrategies, decodeV2Token, signV2 } from '../src/auth.js';
+import { MozAuthError, MozInvalidParamsError } from '../src/errors.js';
+import { RunningMockServer, startMockServer } from '../src/mock-server.js';
+import { MozApiClient } from '../src/moz-client.js';
+
+const FIXTURES_DIR = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../fixtures');
+
+const API_TOKEN = 'test-token';
+const ACCESS_ID = 'mozscape-abc';
+const SECRET_KEY = 's3cr3t';
+
+describe('V3TokenAuth', () => {
+  it('sends the token in the x-moz-token header', () => {
+    assert.deepEqual(new V3TokenAuth(API_TOKEN).requestConfig(), { headers: { 'x-moz-token': API_TOKEN } });
+  });
+});
+
+describe('signV2', () => {
+  it('signs "<access id>\\n<expires>" with HMAC-SHA1 of the secret key', () => {
+    assert.equal(signV2(ACCESS_ID, 'secret', 1700000000), '7als2+QupZSg7i9CoYCltc0irfM=');
+  });
+});
+
+describe('V2SignedAuth.requestConfig', () => {
+  it('sends AccessID, Expires five minutes out and the matching Signature', () => {
+    const now = Math.floor(Date.now() / 1000);
+    const { headers, params } = new V2SignedAuth(ACCESS_ID, SECRET_KEY).requestConfig();
+    assert.equal(headers, undefined);
+    assert.ok(params);
+    assert.equal(params.AccessID, ACCESS_ID);
+    const expires = Number(params.Expires);
+    assert.ok(expires >= now + 300 && expires <= now + 301);
+    assert.equal(params.Signature, signV2(ACCESS_ID, SECRET_KEY, expires));
+  });
+});
+
+describe('decodeV2Token', () => {
+  it('decodes base64 "<access id>:<secret key>"', () => {
+    assert.deepEqual(decodeV2Token('bW96c2NhcGUtYWJjOnMzY3IzdA=='), { accessId: ACCESS_ID, secretKey: SECRET_KEY });
+  });
+
+  it('rejects tokens that are not strict base64', () => {
+    assert.equal(decodeV2Token('bW96c2NhcGUtYWJjOnMzY3IzdA'), undefined);
+    assert.equal(decodeV2Token('not base64!'), undefined);
+  });
+
+  it('rejects base64 without an access id and secret', () => {
+    assert.equal(decodeV2Token(Buffer.from('no-colon-here').toString('base64')), undefined);
+    assert.equal(decodeV2Token(Buffer.from(':secret').toString('base64')), undefined);
+  });
+});
+
+describe('authStrategies', () => {
+  it('tries V3, then V2, in auto mode', () => {
+    const modes = authStrategies({ apiToken: API_TOKEN, accessId: ACCESS_ID, secretKey: SECRET_KEY, authMode: 'auto' })
+      .map(strategy => strategy.mode);
+    assert.deepEqual(modes, ['v3', 'v2']);
+  });
+
+  it('fails without credentials for the mode', () => {
+    assert.throws(() => authStrategies({ authMode: 'v2', apiToken: API_TOKEN }), MozAuthError);
+    assert.throws(() => authStrategies({}), MozAuthError);
+  });
+});
+
+describe('MozApiClient against the mock server', () => {
+  let server: RunningMockServer;
+
+  before(async () => {
+    server = await startMockServer({
+      port: 0,
+      host: '127.0.0.1',
+      fixturesDir: FIXTURES_DIR,
+      credentials: { apiToken: API_TOKEN, accessId: ACCESS_ID, secretKey: SECRET_KEY },
+    });
+  });
+
+  after(() => server.close());
+
+  const client = (credentials: MozCredentials) => new MozApiClient(credentials, {
+    baseUrl: server.url,
+    legacyBaseUrl: server.legacyUrl,
+    retry: { maxRetries: 0 },
+    batch: { windowMs: 0 },
+  });
+
+  describe('checkAuth', () => {
+    it('accepts a valid V3 token', async () => {
+      const moz = client({ apiToken: API_TOKEN });
+      assert.deepEqual(await moz.checkAuth(), [{ mode: 'v3', ok: true }]);
+      assert.equal(moz.authMode, 'v3');
+    });
+
+    it('falls back to V2 when the V3 token is refused', async () => {
+      const moz = client({ apiToken: 'wrong', accessId: ACCESS_ID, secretKey: SECRET_KEY, authMode: 'auto' });
+      const checks = await moz.checkAuth();
+      assert.deepEqual(checks.map(check => [check.mode, check.ok]), [['v3', false], ['v2', true]]);
+      assert.equal(moz.authMode, 'v2');
+    });
+
+    it('reports a V2 signature made with the wrong secret', async () => {
+      const checks = await client({ accessId: ACCESS_ID, secretKey: 'wrong', authMode: 'v2' }).checkAuth();
+      assert.equal(checks.length, 1);
+      assert.equal(checks[0].ok, false);
+      assert.match(checks[0].error ?? '', /401/);
+    });
+  });
+
+  describe('V2 requests', () => {
+    const v2 = () => client({ accessId: ACCESS_ID, secretKey: SECRET_KEY, authMode: 'v2' });
+
+    it('go to the legacy Links API', async () => {
+      const metrics = await v2().getUrlMetrics(['example.com']);
+      assert.equal(metrics.results[0].domain_authority, 54);
+    });
+
+    it('refuse methods the legacy Links API does not serve', async () => {
+      await assert.rejects(v2().getQuota(), MozInvalidParamsError);
+    });
+  });
+});
@@ -0,0 +1,88 @@
+import assert from 'node:assert/strict';
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { RowBudget, SessionBudget, rowsInResult } from '../src/budget.js';
+import { RowBudgetExceededError } from '../src/errors.js';
+
+// Runs a call of `rows` estimated rows that uses all of them
+async function spend(session: SessionBudget, account: RowBudget, rows: number): Promise<void> {
+  const reservation = await session.reserve(rows, account);
+  await reservation.settle(rows);
+}
+
+const exceeded = (budget: string, remainingRows: number) => (error: unknown) =>
+  error instanceof RowBudgetExceededError && error.budget === budget && error.remainingRows === remainingRows;
+
+describe('budget exhaustion', () => {
+  let dir: string;
+
+  before(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'moz-budget-'));
+  });
+
+  after(() => fs.rm(dir, { recursive: true, force: true }));
+
+  it('refuses calls past the session budget', async () => {
+    const session = new SessionBudget(10);
+    const account = new RowBudget('test');
+    await spend(session, account, 10);
+    await assert.rejects(session.reserve(1, account), exceeded('session', 0));
+    // Calls that cost nothing still go through
+    await session.reserve(0, account);
+  });
+
+  it('keeps the daily budget across sessions and restarts', async () => {
+    const stateFile = path.join(dir, 'budget.json');
+    await spend(new SessionBudget(), new RowBudget('test', { dailyLimit: 10, stateFile }), 8);
+    const restarted = new RowBudget('test', { dailyLimit: 10, stateFile });
+    await assert.rejects(new SessionBudget().reserve(3, restarted), exceeded('daily', 2));
+    assert.equal((await restarted.status()).daily_used, 8);
+  });
+
+  it('refuses calls past the remaining account quota', async () => {
+    const account = new RowBudget('test');
+    account.setQuotaRemaining(5);
+    const session = new SessionBudget();
+    await spend(session, account, 4);
+    await assert.rejects(session.reserve(2, account), exceeded('account quota', 1));
+    assert.equal((await account.status()).quota_remaining, 1);
+  });
+});
+
+describe('rowsInResult', () => {
+  it('counts listed items, one row for a lookup and nothing for quota and usage', () => {
+    assert.equal(rowsInResult('data.links', { results: [{}, {}, {}] }), 3);
+    assert.equal(rowsInResult('data.links', { results: [] }), 1);
+    assert.equal(rowsInResult('data.site.metrics.fetch', { site_metrics: {} }), 1);
+    assert.equal(rowsInResult('quota.lookup', { quota: {} }), 0);
+  });
+});
+
+describe('SessionBudget.reserve', () => {
+  it('counts the estimates of running calls against the limits', async () => {
+    const account = new RowBudget('test', { dailyLimit: 100 });
+    const session = new SessionBudget();
+    const results = await Promise.allSettled([
+      session.reserve(60, account),
+      session.reserve(60, account),
+    ]);
+    assert.deepEqual(results.map(result => result.status), ['fulfilled', 'rejected']);
+    assert.ok((results[1] as PromiseRejectedResult).reason instanceof RowBudgetExceededError);
+  });
+
+  it('charges the rows used in place of the estimate', async () => {
+    const account = new RowBudget('test', { dailyLimit: 100 });
+    const session = new SessionBudget(50);
+    const reservation = await session.reserve(40, account);
+    await assert.rejects(session.reserve(20, account), RowBudgetExceededError);
+    await reservation.settle(5);
+    await reservation.settle(5);
+
+    const status = await session.status(account);
+    assert.equal(status.session_used, 5);
+    assert.equal(status.daily_used, 5);
+    await session.reserve(45, account);
+  });
+});
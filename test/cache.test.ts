@@ -0,0 +1,59 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { setTimeout as delay } from 'node:timers/promises';
+import { CacheEntry, MemoryCacheStore, ResponseCache, stableStringify } from '../src/cache.js';
+
+const entry = (value: unknown): CacheEntry => ({ value, storedAt: 0, expiresAt: Infinity });
+
+describe('MemoryCacheStore', () => {
+  it('evicts the least recently used entry beyond its size', async () => {
+    const store = new MemoryCacheStore(2);
+    await store.set('a', entry(1));
+    await store.set('b', entry(2));
+    await store.get('a');
+    await store.set('c', entry(3));
+    assert.equal(await store.get('b'), undefined);
+    assert.equal((await store.get('a'))?.value, 1);
+    assert.equal((await store.get('c'))?.value, 3);
+  });
+
+  it('counts rewriting an entry as a use', async () => {
+    const store = new MemoryCacheStore(2);
+    await store.set('a', entry(1));
+    await store.set('b', entry(2));
+    await store.set('a', entry(10));
+    await store.set('c', entry(3));
+    assert.equal(await store.get('b'), undefined);
+    assert.equal((await store.get('a'))?.value, 10);
+  });
+});
+
+describe('ResponseCache', () => {
+  it('serves entries until their TTL runs out', async () => {
+    const cache = new ResponseCache(new MemoryCacheStore(), { 'data.links': 20 });
+    await cache.set('data.links', { target: 'example.com' }, 'links');
+    assert.equal((await cache.get('data.links', { target: 'example.com' }))?.value, 'links');
+    await delay(30);
+    assert.equal(await cache.get('data.links', { target: 'example.com' }), undefined);
+  });
+
+  it('never caches methods with a TTL of 0', async () => {
+    const cache = new ResponseCache(new MemoryCacheStore());
+    await cache.set('quota.lookup', {}, 'quota');
+    assert.equal(await cache.get('quota.lookup', {}), undefined);
+  });
+
+  it('matches params regardless of key order and keeps namespaces apart', async () => {
+    const store = new MemoryCacheStore();
+    const cache = new ResponseCache(store, {}, 'agency');
+    await cache.set('data.links', { data: { target: 'example.com', limit: 10 } }, 'links');
+    assert.equal((await cache.get('data.links', { data: { limit: 10, target: 'example.com' } }))?.value, 'links');
+    assert.equal(await new ResponseCache(store, {}, 'client-a').get('data.links', { data: { target: 'example.com', limit: 10 } }), undefined);
+  });
+});
+
+describe('stableStringify', () => {
+  it('sorts keys and drops undefined values', () => {
+    assert.equal(stableStringify({ b: [1, { d: 2, c: undefined }], a: 'x' }), '{"a":"x","b":[1,{"d":2}]}');
+  });
+});
@@ -0,0 +1,63 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { clusterKeywords, keywordTerms } from '../src/clustering.js';
+import { ClusteredKeyword } from '../src/moz-types.js';
+
+const keyword = (text: string, volume: number | null, intent: string | null = null): ClusteredKeyword =>
+  ({ keyword: text, volume, difficulty: null, intent });
+
+const KEYWORDS = [
+  keyword('seo tools pricing', 200),
+  keyword('running shoes', 800),
+  keyword('best seo tools', 500),
+  keyword('trail running shoes', 300),
+  keyword('seo tools', 1000),
+];
+
+describe('keywordTerms', () => {
+  it('drops stopwords and folds plurals', () => {
+    assert.deepEqual(keywordTerms('What are the best SEO tools?'), ['best', 'seo', 'tool']);
+    assert.deepEqual(keywordTerms('business class'), ['business', 'class']);
+  });
+});
+
+describe('clusterKeywords', () => {
+  it('groups keywords by shared terms, largest total volume first', () => {
+    const clusters = clusterKeywords(KEYWORDS);
+    assert.deepEqual(clusters.map(cluster => cluster.keywords.map(item => item.keyword)), [
+      ['seo tools', 'best seo tools', 'seo tools pricing'],
+      ['running shoes', 'trail running shoes'],
+    ]);
+    assert.equal(clusters[0].topic, 'seo tool');
+    assert.equal(clusters[0].pillar_keyword, 'seo tools');
+    assert.equal(clusters[0].total_volume, 1700);
+  });
+
+  it('keeps every keyword apart above any similarity but identical terms', () => {
+    const clusters = clusterKeywords([...KEYWORDS, keyword('seo tool', 50)], { threshold: 1 });
+    assert.equal(clusters.length, KEYWORDS.length);
+    // Same terms score exactly 1, which still meets the threshold
+    assert.deepEqual(clusters[0].keywords.map(item => item.keyword), ['seo tools', 'seo tool']);
+  });
+
+  it('puts everything in one cluster at threshold 0', () => {
+    assert.equal(clusterKeywords(KEYWORDS, { threshold: 0 }).length, 1);
+  });
+
+  it('pulls keywords with different intents apart', () => {
+    const sameIntent = clusterKeywords([
+      keyword('seo tools', 1000, 'commercial'),
+      keyword('best seo tools', 500, 'commercial'),
+    ], { threshold: 0.5 });
+    const otherIntent = clusterKeywords([
+      keyword('seo tools', 1000, 'commercial'),
+      keyword('best seo tools', 500, 'informational'),
+    ], { threshold: 0.5 });
+    assert.equal(sameIntent.length, 1);
+    assert.equal(otherIntent.length, 2);
+  });
+
+  it('returns no clusters for no keywords', () => {
+    assert.deepEqual(clusterKeywords([]), []);
+  });
+});
@@ -0,0 +1,56 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { discoveryCandidates, scoreCompetitors } from '../src/competitor-discovery.js';
+import { RankingKeyword } from '../src/moz-types.js';
+
+const ranking = (keyword: string, position: number | null, volume: number | null = null): RankingKeyword =>
+  ({ keyword, rank_position: position, volume, difficulty: null });
+
+describe('discoveryCandidates', () => {
+  it('takes seeds, then linking domains by authority up to the cap', () => {
+    const linkingDomains = [
+      { root_domain: 'low.com', domain_authority: 10 },
+      { root_domain: 'yelp.com', domain_authority: 90 },
+      { root_domain: 'strong.com', domain_authority: 50 },
+      { root_domain: 'example.com', domain_authority: 99 },
+      { root_domain: 'seed.com', domain_authority: 40 },
+      { root_domain: 'excluded.com', domain_authority: 80 },
+    ];
+    const candidates = discoveryCandidates('example.com', linkingDomains, ['https://Seed.com', 'www.example.com'], {
+      maxLinkingDomains: 2,
+      excludeDomains: ['excluded.com'],
+    });
+    assert.deepEqual(candidates, [
+      { domain: 'seed.com', sources: ['seed', 'linking_domain'] },
+      { domain: 'strong.com', sources: ['linking_domain'] },
+    ]);
+  });
+});
+
+describe('scoreCompetitors', () => {
+  const site = { site: 'example.com', keywords: [ranking('big', 5, 900), ranking('small', 2, 100), ranking('unknown', 1)] };
+  const candidates = [
+    { site: 'seed.com', sources: ['seed' as const], keywords: [] },
+    { site: 'faint.com', sources: ['linking_domain' as const], keywords: [ranking('unknown', 4)] },
+    { site: 'close.com', sources: ['linking_domain' as const], keywords: [ranking('big', 3), ranking('small', 9)] },
+    { site: 'unrelated.com', sources: ['linking_domain' as const], keywords: [ranking('other', 1, 5000)] },
+  ];
+
+  it('ranks candidates by volume-weighted keyword overlap', () => {
+    const [close, ...rest] = scoreCompetitors(site, candidates);
+    assert.deepEqual(close, {
+      domain: 'close.com',
+      sources: ['linking_domain'],
+      shared_keywords: 2,
+      keyword_overlap: 66.7,
+      volume_overlap: 99.9,
+      outranking: 1,
+      top_shared_keywords: ['big', 'small'],
+    });
+    assert.deepEqual(rest.map(competitor => competitor.domain), ['faint.com', 'seed.com']);
+  });
+
+  it('drops linking domains below the minimum overlap but keeps seeds', () => {
+    assert.deepEqual(scoreCompetitors(site, candidates, 1).map(competitor => competitor.domain), ['close.com', 'seed.com']);
+  });
+});
@@ -0,0 +1,122 @@
+import assert from 'node:assert/strict';
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { DEFAULT_INSIGHT_RULES, InsightRuleInput, InsightRuleSchema, evaluateInsights, loadInsightRules } from '../src/insights.js';
+import { CompetitorAnalysis } from '../src/moz-types.js';
+
+const ANALYSIS: CompetitorAnalysis = {
+  primary_site: 'example.com',
+  target_keyword: 'seo tools',
+  locale: 'en-US',
+  analysis_timestamp: '2026-10-19T00:00:00.000Z',
+  primary_site_data: {
+    site_metrics: { site_metrics: { domain_authority: 40, page_authority: 20, spam_score: 35, root_domains_to_root_domain: 30 } },
+    brand_authority: { error: 'Moz API Error: unavailable' },
+    ranking_keywords: { ranking_keywords: [{ keyword: 'seo audit', rank_position: 3 }] },
+  },
+  competitor_data: [
+    {
+      site: 'rival.com',
+      site_metrics: { site_metrics: { domain_authority: 65, root_domains_to_root_domain: 100 } },
+      ranking_keywords: { ranking_keywords: [{ keyword: 'SEO Tools', rank_position: 2 }] },
+    },
+    { site: 'down.com', error: 'Moz API Error: unavailable' },
+  ],
+  insights: [],
+};
+
+describe('loadInsightRules', () => {
+  let dir: string;
+
+  before(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'moz-insights-'));
+  });
+
+  after(() => fs.rm(dir, { recursive: true, force: true }));
+
+  const load = async (config: unknown) => {
+    const file = path.join(dir, 'rules.json');
+    await fs.writeFile(file, JSON.stringify(config));
+    return loadInsightRules(file);
+  };
+
+  const rule = (metric: string): InsightRuleInput => ({
+    id: 'custom',
+    metric,
+    comparator: '>',
+    thresholds: [{ value: 0 }],
+    message: '{value}',
+  });
+
+  it('adds custom rules to the defaults with their defaults filled in', async () => {
+    const rules = await load({ disabled: ['primary-page-authority'], rules: [rule('competitors.*.spam_score')] });
+    assert.equal(rules.length, DEFAULT_INSIGHT_RULES.length);
+    assert.equal(rules.at(-1)?.severity, 'info');
+    assert.ok(!rules.some(({ id }) => id === 'primary-page-authority'));
+  });
+
+  it('accepts paths into the analysis itself', async () => {
+    await load({ rules: [rule('primary_site_data.site_metrics.site_metrics.domain_authority')] });
+  });
+
+  it('rejects metrics that do not exist', async () => {
+    for (const metric of ['primay.spam_score', 'primary.spam', 'competitors.spam_score', 'keyword', 'summary.competitors.x', 'constructor']) {
+      await assert.rejects(load({ rules: [rule(metric)] }), /rules\.0\.metric: unknown metric/, metric);
+    }
+  });
+});
+
+describe('evaluateInsights', () => {
+  const evaluate = (...rules: InsightRuleInput[]) =>
+    evaluateInsights(ANALYSIS, rules.map(rule => InsightRuleSchema.parse(rule)));
+
+  it('reports the first matching threshold with its label and severity', () => {
+    const [finding, ...rest] = evaluate({
+      id: 'spam',
+      metric: 'primary.spam_score',
+      comparator: '>=',
+      thresholds: [{ value: 61, label: 'high', severity: 'critical' }, { value: 31, label: 'medium' }],
+      severity: 'warning',
+      message: 'Spam score {value}% ({label}, at least {threshold}); {primary.linking_domains} linking domains',
+    });
+    assert.equal(rest.length, 0);
+    assert.equal(finding.severity, 'warning');
+    assert.equal(finding.message, 'Spam score 35% (medium, at least 31); 30 linking domains');
+    assert.deepEqual(finding.evidence, { metric: 'primary.spam_score', value: 35, comparator: '>=', threshold: 31 });
+  });
+
+  it('evaluates * rules once per competitor with data', () => {
+    const findings = evaluate({
+      id: 'gap',
+      metric: 'competitors.*.domain_authority_gap',
+      comparator: '>=',
+      thresholds: [{ value: 20, severity: 'critical' }, { value: 10 }],
+      message: '{site} is {value} ahead ({domain_authority} vs {primary.domain_authority})',
+    });
+    assert.deepEqual(findings.map(finding => [finding.severity, finding.message, finding.evidence.site]), [
+      ['critical', 'rival.com is 25 ahead (65 vs 40)', 'rival.com'],
+    ]);
+  });
+
+  it('tells missing values apart from data that was not fetched', () => {
+    const findings = evaluate(
+      { id: 'unranked', metric: 'primary.target_rank', comparator: 'missing', message: 'not ranked' },
+      { id: 'no-brand', metric: 'primary.brand_authority', comparator: 'missing', message: 'no brand authority' },
+      { id: 'brand', metric: 'primary.brand_authority', comparator: 'exists', message: 'brand authority' },
+      { id: 'only', metric: 'competitors.*.target_rank_only', comparator: '==', thresholds: [{ value: 1 }], message: '{site} ranks at {target_rank}' },
+    );
+    assert.deepEqual(findings.map(finding => [finding.id, finding.message]), [
+      ['unranked', 'not ranked'],
+      ['only', 'rival.com ranks at 2'],
+    ]);
+  });
+
+  it('applies the default rules', () => {
+    const ids = evaluateInsights(ANALYSIS).map(finding => finding.id);
+    assert.ok(ids.includes('target-keyword-unranked'));
+    assert.ok(ids.includes('competitor-domain-authority-gap'));
+    assert.ok(!ids.includes('primary-brand-authority'));
+  });
+});
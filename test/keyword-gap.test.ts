@@ -0,0 +1,52 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { computeKeywordGap, opportunityScore, rankingsBySite } from '../src/keyword-gap.js';
+import { RankingKeyword } from '../src/moz-types.js';
+
+const ranking = (keyword: string, position: number | null, volume: number | null = null): RankingKeyword =>
+  ({ keyword, rank_position: position, volume, difficulty: null });
+
+describe('rankingsBySite', () => {
+  it('keeps the best position of each normalized keyword', () => {
+    const rankings = rankingsBySite([ranking('SEO Tools', 8, 1000), ranking('seo  tools ', 3), ranking('seo tools', null)]);
+    assert.deepEqual([...rankings.values()], [{ keyword: 'seo tools', position: 3, volume: 1000, difficulty: null }]);
+  });
+});
+
+describe('opportunityScore', () => {
+  it('discounts volume by difficulty, counting unknown difficulty as 50', () => {
+    assert.equal(opportunityScore(1000, 20), 800);
+    assert.equal(opportunityScore(1000, null), 500);
+    assert.equal(opportunityScore(null, 20), 0);
+  });
+});
+
+describe('computeKeywordGap', () => {
+  const primary = { site: 'example.com', keywords: [ranking('ahead', 1), ranking('behind', 9), ranking('only ours', 2)] };
+  const competitors = [
+    { site: 'rival.com', keywords: [ranking('ahead', 4), ranking('behind', 3), ranking('theirs', 5, 300)] },
+    { site: 'other.com', keywords: [ranking('theirs', 2), ranking('also theirs', 6, 900)] },
+  ];
+
+  it('sorts keywords into missing, weaker and unique', () => {
+    const gap = computeKeywordGap(primary, competitors);
+    assert.deepEqual(gap.missing.map(row => row.keyword), ['also theirs', 'theirs']);
+    assert.deepEqual(gap.weaker.map(row => row.keyword), ['behind']);
+    assert.deepEqual(gap.unique.map(row => row.keyword), ['only ours']);
+    assert.deepEqual(gap.summary, { primary_keywords: 3, missing: 2, weaker: 1, unique: 1 });
+  });
+
+  it('names the best ranking competitor and every competitor position', () => {
+    const theirs = computeKeywordGap(primary, competitors).missing.find(row => row.keyword === 'theirs');
+    assert.equal(theirs?.best_competitor, 'other.com');
+    assert.equal(theirs?.best_competitor_position, 2);
+    assert.deepEqual(theirs?.competitor_positions, { 'rival.com': 5, 'other.com': 2 });
+    assert.equal(theirs?.primary_position, null);
+  });
+
+  it('sorts and limits each section', () => {
+    const gap = computeKeywordGap(primary, competitors, { sortBy: 'volume', limit: 1 });
+    assert.deepEqual(gap.missing.map(row => row.keyword), ['also theirs']);
+    assert.equal(gap.summary.missing, 2);
+  });
+});
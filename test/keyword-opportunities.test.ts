@@ -0,0 +1,55 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { isStrikingDistance, pageOpportunities, positionCtr, scoreOpportunities } from '../src/keyword-opportunities.js';
+import { BulkKeywordRow, RankingKeyword } from '../src/moz-types.js';
+
+const ranking = (keyword: string, position: number, page: string, volume: number | null = null): RankingKeyword =>
+  ({ keyword, rank_position: position, ranking_page: page, volume, difficulty: null });
+
+const metrics = (keyword: string, fields: Partial<BulkKeywordRow>): BulkKeywordRow =>
+  ({ keyword, difficulty: null, volume: null, organic_ctr: null, priority: null, intent: null, ...fields });
+
+describe('positionCtr and isStrikingDistance', () => {
+  it('follow the click curve and the striking distance range at their edges', () => {
+    assert.deepEqual([null, 0, 1, 3, 10, 11, 20, 21].map(positionCtr), [0, 0, 0.28, 0.11, 0.025, 0.01, 0.01, 0.002]);
+    assert.deepEqual([null, 3, 4, 20, 21].map(isStrikingDistance), [false, false, true, true, false]);
+  });
+});
+
+describe('scoreOpportunities', () => {
+  const rows = scoreOpportunities([
+    ranking('Pricing Page', 12, '/pricing', 500),
+    ranking('pricing page', 8, '/pricing'),
+    ranking('top', 1, '/', 2000),
+    ranking('deep', 40, '/blog', 1000),
+  ], [
+    metrics('pricing page', { volume: 1000, organic_ctr: 50, difficulty: 30, priority: 60 }),
+    metrics('deep', { error: 'lookup failed' }),
+  ]);
+
+  it('ranks keywords at their best position by traffic uplift to the top 3', () => {
+    assert.deepEqual(rows.map(row => [row.keyword, row.position, row.traffic_uplift]), [
+      ['deep', 40, 108],
+      ['pricing page', 8, 40],
+      ['top', 1, 0],
+    ]);
+  });
+
+  it('prefers looked up metrics and falls back to the ranking data', () => {
+    const pricing = rows.find(row => row.keyword === 'pricing page');
+    assert.equal(pricing?.volume, 1000);
+    assert.equal(pricing?.estimated_clicks, 15);
+    assert.equal(pricing?.striking_distance, true);
+
+    const deep = rows.find(row => row.keyword === 'deep');
+    assert.equal(deep?.volume, 1000);
+    assert.equal(deep?.error, 'lookup failed');
+  });
+
+  it('sums the uplift per ranking page and leaves out pages without any', () => {
+    assert.deepEqual(pageOpportunities(rows).map(page => [page.ranking_page, page.traffic_uplift]), [
+      ['/blog', 108],
+      ['/pricing', 40],
+    ]);
+  });
+});
@@ -0,0 +1,77 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { filterProspects, intersectLinkingDomains, isDirectoryDomain, normalizeDomain, rankProspects } from '../src/link-intersect.js';
+import { LinkIntersectRow, LinkingDomain } from '../src/moz-types.js';
+
+const domain = (rootDomain: string, domainAuthority: number | null = null, spamScore: number | null = null): LinkingDomain =>
+  ({ root_domain: rootDomain, domain_authority: domainAuthority, spam_score: spamScore });
+
+const prospect = (rootDomain: string, domainAuthority: number | null, spamScore: number | null, competitorCount = 2): LinkIntersectRow =>
+  ({ root_domain: rootDomain, domain_authority: domainAuthority, spam_score: spamScore, competitor_count: competitorCount, competitors: [] });
+
+describe('normalizeDomain', () => {
+  it('strips the scheme, www and path and lowercases', () => {
+    assert.equal(normalizeDomain(' https://www.Example.com/blog/ '), 'example.com');
+  });
+});
+
+describe('intersectLinkingDomains', () => {
+  const primary = { site: 'example.com', domains: [domain('ours.com')] };
+  const competitors = [
+    { site: 'rival.com', domains: [domain('ours.com'), domain('shared.com', 60), domain('shared.com', 60), domain('rival-only.com')] },
+    { site: 'other.com', domains: [domain('https://www.Shared.com'), domain('other-only.com')] },
+  ];
+
+  it('keeps domains linking to enough competitors and not to the primary site', () => {
+    assert.deepEqual(intersectLinkingDomains(primary, competitors), [{
+      root_domain: 'shared.com',
+      domain_authority: 60,
+      spam_score: null,
+      competitor_count: 2,
+      competitors: ['rival.com', 'other.com'],
+    }]);
+  });
+
+  it('counts a competitor once however often a domain is listed for it', () => {
+    const rows = intersectLinkingDomains(primary, competitors, 1);
+    assert.deepEqual(rows.map(row => [row.root_domain, row.competitor_count]), [
+      ['shared.com', 2],
+      ['rival-only.com', 1],
+      ['other-only.com', 1],
+    ]);
+  });
+});
+
+describe('filterProspects', () => {
+  const rows = [
+    prospect('strong.com', 70, 1),
+    prospect('weak.com', 10, 1),
+    prospect('spammy.com', 70, 80),
+    prospect('seo-directory.com', 70, 1),
+    prospect('excluded.com', 70, 1),
+  ];
+
+  it('drops directories, excluded domains and domains outside the limits', () => {
+    const kept = filterProspects(rows, { minDomainAuthority: 20, maxSpamScore: 30, excludeDomains: ['www.Excluded.com'] });
+    assert.deepEqual(kept.map(row => row.root_domain), ['strong.com']);
+  });
+
+  it('keeps directories when asked to', () => {
+    assert.equal(filterProspects(rows, { excludeDirectories: false }).length, rows.length);
+    assert.ok(isDirectoryDomain('yelp.com'));
+    assert.ok(!isDirectoryDomain('linkedin.com'));
+  });
+});
+
+describe('rankProspects', () => {
+  it('orders by authority, then spam score, then competitor count', () => {
+    const ranked = rankProspects([
+      prospect('c.com', 50, 5, 3),
+      prospect('d.com', null, null),
+      prospect('b.com', 50, 5, 4),
+      prospect('a.com', 50, 1),
+      prospect('e.com', 90, 10),
+    ]);
+    assert.deepEqual(ranked.map(row => row.root_domain), ['e.com', 'a.com', 'b.com', 'c.com', 'd.com']);
+  });
+});
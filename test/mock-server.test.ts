@@ -0,0 +1,74 @@
+import assert from 'node:assert/strict';
+import path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { fileURLToPath } from 'node:url';
+import axios from 'axios';
+import { RunningMockServer, sanitize, startMockServer } from '../src/mock-server.js';
+
+const FIXTURES_DIR = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../fixtures');
+
+describe('mock server', () => {
+  let server: RunningMockServer;
+
+  before(async () => {
+    server = await startMockServer({
+      port: 0,
+      host: '127.0.0.1',
+      fixturesDir: FIXTURES_DIR,
+      failMethods: { 'data.usage': 'rate_limit' },
+    });
+  });
+
+  after(() => server.close());
+
+  const call = (body: unknown) => axios.post(server.url, body, { validateStatus: () => true });
+
+  it('replays the fixture recorded for the params', async () => {
+    const response = await call({
+      jsonrpc: '2.0',
+      id: '1',
+      method: 'data.url_metrics',
+      params: { data: { targets: ['example.com'] } },
+    });
+    assert.equal(response.status, 200);
+    assert.equal(response.data.id, '1');
+    assert.equal(response.data.result.results[0].domain_authority, 54);
+  });
+
+  it('answers a batch with an array', async () => {
+    const response = await call([
+      { jsonrpc: '2.0', id: 'a', method: 'quota.lookup', params: {} },
+      { jsonrpc: '2.0', id: 'b', method: 'no.such.method', params: {} },
+    ]);
+    assert.deepEqual(response.data.map((entry: { id: string }) => entry.id), ['a', 'b']);
+    assert.equal(response.data[1].error.code, -32601);
+  });
+
+  it('refuses method names that could leave the fixtures directory', async () => {
+    for (const method of ['../package', 'data/../../package', '..', 'data..usage']) {
+      const response = await call({ jsonrpc: '2.0', id: '1', method, params: {} });
+      assert.equal(response.data.error.code, -32600, method);
+    }
+  });
+
+  it('fails methods configured to fail', async () => {
+    const response = await call({ jsonrpc: '2.0', id: '1', method: 'data.usage', params: {} });
+    assert.equal(response.status, 429);
+    assert.equal(response.headers['retry-after'], '1');
+  });
+
+  it('does not treat inherited names as failing methods', async () => {
+    const response = await call({ jsonrpc: '2.0', id: '1', method: 'constructor', params: {} });
+    assert.equal(response.status, 200);
+    assert.equal(response.data.error.code, -32601);
+  });
+});
+
+describe('sanitize', () => {
+  it('redacts credentials at any depth', () => {
+    assert.deepEqual(
+      sanitize({ data: { target: 'example.com', api_token: 'x', owners: [{ email: 'a@b.c' }] } }),
+      { data: { target: 'example.com', api_token: 'REDACTED', owners: [{ email: 'REDACTED' }] } }
+    );
+  });
+});
@@ -0,0 +1,99 @@
+import assert from 'node:assert/strict';
+import path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { fileURLToPath } from 'node:url';
+import { MemoryCacheStore, ResponseCache } from '../src/cache.js';
+import { createCallContext, runInCallContext } from '../src/call-context.js';
+import { RunningMockServer, startMockServer } from '../src/mock-server.js';
+import { MozApiClient } from '../src/moz-client.js';
+
+const FIXTURES_DIR = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../fixtures');
+
+describe('MozApiClient batching', () => {
+  let server: RunningMockServer;
+  let batchPosts = 0;
+
+  before(async () => {
+    server = await startMockServer({
+      port: 0,
+      host: '127.0.0.1',
+      fixturesDir: FIXTURES_DIR,
+      rejectBatches: true,
+      onRequest: body => {
+        batchPosts += Array.isArray(body) ? 1 : 0;
+      },
+    });
+  });
+
+  after(() => server.close());
+
+  it('sends the requests of a rejected batch one at a time and stops batching', async () => {
+    const client = new MozApiClient({ apiToken: 'test-token' }, {
+      baseUrl: server.url,
+      retry: { maxRetries: 0 },
+      batch: { windowMs: 20, maxSize: 10 },
+    });
+    for (let round = 0; round < 2; round++) {
+      const [metrics, quota] = await Promise.all([
+        client.getUrlMetrics(['example.com']),
+        client.getQuota(),
+      ]);
+      assert.equal(metrics.results[0].domain_authority, 54);
+      assert.ok(quota);
+      assert.equal(batchPosts, 1, `round ${round}`);
+    }
+  });
+});
+
+describe('MozApiClient snapshots', () => {
+  let server: RunningMockServer;
+
+  before(async () => {
+    server = await startMockServer({ port: 0, host: '127.0.0.1', fixturesDir: FIXTURES_DIR });
+  });
+
+  after(() => server.close());
+
+  it('fetch live data even when the responses are cached, under normalized site keys', async () => {
+    const client = new MozApiClient({ apiToken: 'test-token' }, {
+      baseUrl: server.url,
+      cache: new ResponseCache(new MemoryCacheStore()),
+      batch: { windowMs: 0 },
+    });
+    for (let round = 0; round < 2; round++) {
+      const context = createCallContext();
+      const data = await runInCallContext(context, () =>
+        client.getSnapshotData(['https://www.Example.com/', 'example.com'], [], { rankingKeywordsLimit: 10 }));
+      assert.deepEqual(Object.keys(data.sites), ['example.com']);
+      assert.ok(context.calls.length > 0);
+      assert.ok(context.calls.every(call => !call.cached), `round ${round} used the cache`);
+    }
+  });
+});
+
+describe('MozApiClient responses', () => {
+  let server: RunningMockServer;
+
+  before(async () => {
+    server = await startMockServer({ port: 0, host: '127.0.0.1', fixturesDir: FIXTURES_DIR });
+  });
+
+  after(() => server.close());
+
+  it('validates the global lists, usage and ranking keyword counts', async () => {
+    const client = new MozApiClient({ apiToken: 'test-token' }, {
+      baseUrl: server.url,
+      batch: { windowMs: 0 },
+    });
+    const [pages, domains, usage, count] = await Promise.all([
+      client.getGlobalTopPages(),
+      client.getGlobalTopDomains(),
+      client.getUsageData(),
+      client.getSiteRankingKeywordsCount('example.com'),
+    ]);
+    assert.equal(pages.results[0].page, 'www.google.com/');
+    assert.equal(domains.results[0].root_domain, 'google.com');
+    assert.equal(usage.usage[0].rows, 1204);
+    assert.equal(count.count, 1023);
+  });
+});
@@ -0,0 +1,59 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { MozInvalidParamsError } from '../src/errors.js';
+import { Pager, collectPages, decodeOffsetToken, nextOffsetToken } from '../src/pagination.js';
+
+// Offset-paged list of 0..size-1 that records the page sizes it was asked for
+function offsetPager(size: number, maxPageSize: number): Pager<number> & { requested: number[] } {
+  const requested: number[] = [];
+  return {
+    maxPageSize,
+    requested,
+    fetchPage: async (pageToken, pageSize) => {
+      requested.push(pageSize);
+      const offset = decodeOffsetToken(pageToken);
+      const items = Array.from({ length: Math.max(0, Math.min(pageSize, size - offset)) }, (_, i) => offset + i);
+      return { items, nextToken: nextOffsetToken(offset, pageSize, items.length) };
+    },
+  };
+}
+
+describe('collectPages', () => {
+  it('fetches pages up to maxRows and returns a token to continue from', async () => {
+    const pager = offsetPager(25, 10);
+    const first = await collectPages(pager, { maxRows: 15 });
+    assert.deepEqual(first.items, Array.from({ length: 15 }, (_, i) => i));
+    assert.equal(first.nextToken, '15');
+    assert.deepEqual(pager.requested, [10, 5]);
+
+    const rest = await collectPages(pager, { maxRows: 100, pageToken: first.nextToken });
+    assert.deepEqual(rest.items, Array.from({ length: 10 }, (_, i) => 15 + i));
+    assert.equal(rest.nextToken, undefined);
+  });
+
+  it('stops at a short page', async () => {
+    const pager = offsetPager(7, 10);
+    const page = await collectPages(pager, { maxRows: 50 });
+    assert.equal(page.items.length, 7);
+    assert.equal(page.nextToken, undefined);
+    assert.deepEqual(pager.requested, [10]);
+  });
+
+  it('follows the API\'s own next tokens and trims oversized pages', async () => {
+    const pages: Record<string, { items: string[]; nextToken?: string }> = {
+      start: { items: ['a', 'b', 'c'], nextToken: 'second' },
+      second: { items: ['d'] },
+    };
+    const pager: Pager<string> = { maxPageSize: 2, fetchPage: async token => pages[token ?? 'start'] };
+    assert.deepEqual(await collectPages(pager, { maxRows: 10 }), { items: ['a', 'b', 'd'], nextToken: undefined });
+  });
+});
+
+describe('decodeOffsetToken', () => {
+  it('rejects tokens that are not offsets', () => {
+    assert.equal(decodeOffsetToken(undefined), 0);
+    for (const token of ['-1', '1.5', 'abc']) {
+      assert.throws(() => decodeOffsetToken(token), MozInvalidParamsError, token);
+    }
+  });
+});
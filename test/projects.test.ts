@@ -0,0 +1,69 @@
+import assert from 'node:assert/strict';
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { MozInvalidParamsError } from '../src/errors.js';
+import { ProjectFields, ProjectStore, projectKeywords } from '../src/projects.js';
+
+const FIELDS: ProjectFields = {
+  site: 'example.com',
+  competitors: ['rival.com'],
+  keyword_groups: { pricing: ['seo tool pricing'], features: ['rank tracker', 'seo tool pricing'] },
+};
+
+describe('ProjectStore', () => {
+  let dir: string;
+  let store: ProjectStore;
+
+  before(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'moz-projects-'));
+    store = new ProjectStore(path.join(dir, 'projects.json'));
+  });
+
+  after(() => fs.rm(dir, { recursive: true, force: true }));
+
+  it('creates, updates and deletes projects', async () => {
+    await store.create('acme', FIELDS);
+    assert.equal((await store.update('acme', { site: 'acme.com' })).site, 'acme.com');
+    assert.deepEqual((await store.get('acme')).competitors, ['rival.com']);
+    await store.delete('acme');
+    await assert.rejects(store.get('acme'), MozInvalidParamsError);
+  });
+
+  it('treats names of Object.prototype members as unknown projects', async () => {
+    for (const name of ['constructor', 'toString', '__proto__']) {
+      await assert.rejects(store.get(name), MozInvalidParamsError);
+      await assert.rejects(store.update(name, { site: 'x.com' }), MozInvalidParamsError);
+      await assert.rejects(store.delete(name), MozInvalidParamsError);
+    }
+  });
+
+  it('stores projects named like Object.prototype members', async () => {
+    for (const name of ['constructor', '__proto__']) {
+      await store.create(name, FIELDS);
+      assert.equal((await store.get(name)).name, name);
+      await assert.rejects(store.create(name, FIELDS), /already exists/);
+    }
+    const names = (await store.list()).map(project => project.name);
+    assert.ok(names.includes('constructor') && names.includes('__proto__'));
+    await store.delete('__proto__');
+    await assert.rejects(store.get('__proto__'), MozInvalidParamsError);
+    assert.equal((await store.get('constructor')).name, 'constructor');
+  });
+});
+
+describe('projectKeywords', () => {
+  const project = { ...FIELDS, name: 'acme', created_at: '', updated_at: '' };
+
+  it('returns one group, or all groups without duplicates', () => {
+    assert.deepEqual(projectKeywords(project, 'pricing'), ['seo tool pricing']);
+    assert.deepEqual(projectKeywords(project), ['seo tool pricing', 'rank tracker']);
+  });
+
+  it('rejects unknown groups, including Object.prototype members', () => {
+    for (const group of ['missing', 'constructor', '__proto__']) {
+      assert.throws(() => projectKeywords(project, group), MozInvalidParamsError);
+    }
+  });
+});
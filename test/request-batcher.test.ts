@@ -0,0 +1,64 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { MozUpstreamError } from '../src/errors.js';
+import { RequestBatcher } from '../src/request-batcher.js';
+
+interface Request {
+  id: string;
+}
+
+interface Response {
+  id: string | null;
+  echo: string;
+}
+
+// Batcher whose batches are recorded by id and answered in reverse order
+function echoBatcher(windowMs: number, maxSize: number, answer: (request: Request) => boolean = () => true) {
+  const batches: string[][] = [];
+  const batcher = new RequestBatcher<Request, Response>({ windowMs, maxSize }, async (requests) => {
+    batches.push(requests.map(request => request.id));
+    return requests.filter(answer).map(request => ({ id: request.id, echo: request.id })).reverse();
+  });
+  return { batcher, batches };
+}
+
+describe('RequestBatcher', () => {
+  it('sends requests made within the window as one batch', async () => {
+    const { batcher, batches } = echoBatcher(20, 10);
+    const responses = await Promise.all(['a', 'b', 'c'].map(id => batcher.enqueue({ id })));
+    assert.deepEqual(responses.map(response => response.echo), ['a', 'b', 'c']);
+    assert.deepEqual(batches, [['a', 'b', 'c']]);
+  });
+
+  it('sends a full batch right away and starts a new one', async () => {
+    const { batcher, batches } = echoBatcher(1000, 2);
+    const started = Date.now();
+    const first = Promise.all([batcher.enqueue({ id: 'a' }), batcher.enqueue({ id: 'b' })]);
+    assert.deepEqual(batches, [['a', 'b']]);
+    await first;
+    assert.ok(Date.now() - started < 1000);
+  });
+
+  it('keeps windows apart', async () => {
+    const { batcher, batches } = echoBatcher(5, 10);
+    await batcher.enqueue({ id: 'a' });
+    await batcher.enqueue({ id: 'b' });
+    assert.deepEqual(batches, [['a'], ['b']]);
+  });
+
+  it('fails requests the batch response has no entry for', async () => {
+    const { batcher } = echoBatcher(5, 10, request => request.id !== 'lost');
+    const [kept, lost] = await Promise.allSettled([batcher.enqueue({ id: 'kept' }), batcher.enqueue({ id: 'lost' })]);
+    assert.equal(kept.status, 'fulfilled');
+    assert.ok(lost.status === 'rejected' && lost.reason instanceof MozUpstreamError);
+  });
+
+  it('fails every request of a batch that could not be sent', async () => {
+    const failure = new Error('connection reset');
+    const batcher = new RequestBatcher<Request, Response>({ windowMs: 5, maxSize: 10 }, async () => {
+      throw failure;
+    });
+    const results = await Promise.allSettled([batcher.enqueue({ id: 'a' }), batcher.enqueue({ id: 'b' })]);
+    assert.deepEqual(results, [{ status: 'rejected', reason: failure }, { status: 'rejected', reason: failure }]);
+  });
+});
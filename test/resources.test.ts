@@ -0,0 +1,40 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { MozInvalidParamsError } from '../src/errors.js';
+import { parseResourceUri, refreshedResources, resourceUri } from '../src/resources.js';
+
+describe('parseResourceUri', () => {
+  it('round-trips the URIs resourceUri builds', () => {
+    const ref = { kind: 'keyword', locale: 'en-US', keyword: 'seo tools' } as const;
+    assert.deepEqual(parseResourceUri(resourceUri(ref)), ref);
+    assert.deepEqual(parseResourceUri('moz://site/example.com/metrics'), { kind: 'site', domain: 'example.com' });
+  });
+
+  it('normalizes the keyword locale like the tools do', () => {
+    assert.deepEqual(parseResourceUri('moz://keyword/en_gb/seo%20tools'), { kind: 'keyword', locale: 'en-GB', keyword: 'seo tools' });
+  });
+
+  it('rejects locales Moz does not support', () => {
+    assert.throws(() => parseResourceUri('moz://keyword/xx-YY/seo%20tools'), MozInvalidParamsError);
+    assert.throws(() => parseResourceUri('moz://keyword/english/seo%20tools'), /Invalid locale/);
+  });
+
+  it('rejects unknown resources', () => {
+    for (const uri of ['moz://nope', 'moz://site/example.com', 'moz://quota/extra', 'moz://project/%E0%A4%A']) {
+      assert.throws(() => parseResourceUri(uri), MozInvalidParamsError, uri);
+    }
+  });
+});
+
+describe('refreshedResources', () => {
+  it('maps live responses to the resources they refresh', () => {
+    assert.deepEqual(
+      refreshedResources('data.keyword.metrics.fetch', { data: { serp_query: { keyword: 'SEO Tools', locale: 'en-US' } } }),
+      ['moz://keyword/en-US/seo%20tools']
+    );
+    assert.deepEqual(refreshedResources('data.site.metrics.fetch', { data: { site_query: { query: 'example.com' } } }),
+      ['moz://site/example.com/metrics']);
+    assert.deepEqual(refreshedResources('data.site.metrics.fetch', { data: { site_query: { query: 42 } } }), []);
+    assert.deepEqual(refreshedResources('data.links', {}), []);
+  });
+});
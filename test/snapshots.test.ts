@@ -0,0 +1,80 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { Snapshot } from '../src/moz-types.js';
+import { diffSnapshots, timeSeries } from '../src/snapshots.js';
+
+function snapshot(id: string, position: number, volume: number): Snapshot {
+  return {
+    id,
+    taken_at: `2026-01-0${id}T00:00:00.000Z`,
+    account: 'default',
+    sites: {
+      'example.com': {
+        domain_authority: 40 + position,
+        page_authority: null,
+        spam_score: null,
+        brand_authority: null,
+        ranking_keywords: { 'seo tools': position, constructor: position },
+      },
+    },
+    keywords: { 'seo tools': { volume, difficulty: 30, organic_ctr: null, priority: null } },
+  };
+}
+
+describe('timeSeries', () => {
+  const snapshots = [snapshot('1', 8, 100), snapshot('2', 5, 150)];
+
+  it('follows a keyword and a site rank over time', () => {
+    assert.deepEqual(timeSeries(snapshots, { keyword: 'seo tools' }).map(point => point.volume), [100, 150]);
+    assert.deepEqual(
+      timeSeries(snapshots, { site: 'example.com', keyword: 'seo tools' }).map(point => point.rank_position),
+      [8, 5]
+    );
+  });
+
+  it('skips subjects that are Object.prototype members', () => {
+    assert.deepEqual(timeSeries(snapshots, { keyword: 'toString' }), []);
+    assert.deepEqual(timeSeries(snapshots, { site: '__proto__' }), []);
+    assert.deepEqual(
+      timeSeries(snapshots, { site: 'example.com', keyword: 'hasOwnProperty' }).map(point => point.rank_position),
+      [null, null]
+    );
+  });
+});
+
+describe('diffSnapshots', () => {
+  it('diffs keywords named like Object.prototype members as ordinary keywords', () => {
+    const diff = diffSnapshots(snapshot('1', 8, 100), snapshot('2', 5, 150));
+    assert.deepEqual(diff.keywords['seo tools'].volume, { from: 100, to: 150, change: 50 });
+    assert.deepEqual(
+      diff.sites['example.com'].improved.map(row => row.keyword).sort(),
+      ['constructor', 'seo tools']
+    );
+    assert.equal(Object.hasOwn(diff.keywords, 'constructor'), false);
+  });
+});
+
+describe('snapshots without ranking keywords', () => {
+  function failedRankings(id: string): Snapshot {
+    const taken = snapshot(id, 5, 150);
+    taken.sites['example.com'].ranking_keywords = null;
+    taken.sites['example.com'].errors = ['ranking keywords: Network Error: timeout'];
+    return taken;
+  }
+
+  it('diffs metrics but reports no keywords as lost', () => {
+    const diff = diffSnapshots(snapshot('1', 8, 100), failedRankings('2')).sites['example.com'];
+    assert.deepEqual(diff.metrics.domain_authority, { from: 48, to: 45, change: -3 });
+    assert.deepEqual([diff.gained, diff.lost, diff.improved, diff.declined], [[], [], [], []]);
+    assert.equal(diff.rankings_unavailable, 'ranking keywords were not fetched in snapshot 2 (Network Error: timeout)');
+  });
+
+  it('marks series points without rank data', () => {
+    const snapshots = [snapshot('1', 8, 100), failedRankings('2')];
+    const ranks = timeSeries(snapshots, { site: 'example.com', keyword: 'seo tools' });
+    assert.deepEqual(ranks.map(point => point.rank_position), [8, null]);
+    assert.equal(ranks[0].error, undefined);
+    assert.match(String(ranks[1].error), /not fetched in snapshot 2/);
+    assert.deepEqual(timeSeries(snapshots, { site: 'example.com' }).map(point => point.ranking_keywords), [2, null]);
+  });
+});
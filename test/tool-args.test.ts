@@ -0,0 +1,20 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { locale } from '../src/tool-args.js';
+
+describe('locale', () => {
+  it('accepts supported locales in any common spelling', () => {
+    for (const value of ['en-US', 'en_us', 'EN-us', ' de-DE ']) {
+      assert.equal(locale().safeParse(value).success, true, value);
+    }
+    assert.equal(locale().parse('en_gb'), 'en-GB');
+  });
+
+  it('rejects locales Moz does not support', () => {
+    for (const value of ['xx-YY', 'en-XX', 'english', '', 42]) {
+      const result = locale().safeParse(value);
+      assert.equal(result.success, false, String(value));
+      assert.match(result.error?.issues[0].message ?? '', /expected one of en-US/);
+    }
+  });
+});